@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ['@anthropic-ai/sdk', '@google-cloud/vertexai'],
+  serverExternalPackages: ['@anthropic-ai/sdk', '@google-cloud/vertexai', 'ffmpeg-static'],
 };
 
 export default nextConfig;
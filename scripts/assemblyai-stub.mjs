@@ -0,0 +1,112 @@
+// Minimal stand-in for the AssemblyAI v2 API, for exercising the job and
+// webhook flow locally without spending credits.
+//
+//   node scripts/assemblyai-stub.mjs
+//   ASSEMBLY_AI_BASE_URL=http://localhost:4010 ASSEMBLY_AI_API_KEY=stub npm run dev
+//
+// Transcripts complete STUB_DELAY_MS after they are requested. When the request
+// carries a webhook_url the stub calls it with the configured auth header, just
+// like the real service.
+
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+
+const PORT = Number(process.env.STUB_PORT || 4010);
+const DELAY_MS = Number(process.env.STUB_DELAY_MS || 5000);
+
+const UTTERANCES = [
+  { speaker: 'A', start: 0, end: 6200, confidence: 0.94, text: 'Um, so today I have the pleasure of, uh, speaking with a guest who has, you know, thought a lot about this.' },
+  { speaker: 'B', start: 6500, end: 11800, confidence: 0.91, text: 'Yeah, thanks for, thanks for having me. It is, like, really great to be here.' },
+  { speaker: 'A', start: 12100, end: 19400, confidence: 0.88, text: 'So I want to start with, um, the question everyone asks. Where do you think this is all going?' },
+  { speaker: 'B', start: 19800, end: 31000, confidence: 0.9, text: 'I mean, I think the honest answer is that, uh, nobody really knows. But the trend lines are, you know, pretty clear.' },
+];
+
+// Spread each utterance's words evenly over it. Every seventh word gets a low
+// confidence so the uncertain-passage UI has something to show.
+function withWords(utterance) {
+  const texts = utterance.text.split(' ');
+  const step = (utterance.end - utterance.start) / texts.length;
+  const words = texts.map((text, i) => ({
+    text,
+    start: Math.round(utterance.start + i * step),
+    end: Math.round(utterance.start + (i + 1) * step),
+    confidence: i % 7 === 6 ? 0.42 : utterance.confidence,
+    speaker: utterance.speaker,
+  }));
+  return { ...utterance, words };
+}
+
+const transcripts = new Map();
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request) {
+  const parts = [];
+  for await (const part of request) parts.push(part);
+  return Buffer.concat(parts);
+}
+
+async function complete(id) {
+  const transcript = transcripts.get(id);
+  transcript.status = 'completed';
+  transcript.utterances = UTTERANCES.map(withWords);
+  transcript.text = UTTERANCES.map(u => u.text).join(' ');
+  console.log(`transcript ${id} completed`);
+
+  if (transcript.request.webhook_url) {
+    const headers = { 'content-type': 'application/json' };
+    if (transcript.request.webhook_auth_header_name) {
+      headers[transcript.request.webhook_auth_header_name] = transcript.request.webhook_auth_header_value;
+    }
+    try {
+      const response = await fetch(transcript.request.webhook_url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ transcript_id: id, status: 'completed' }),
+      });
+      console.log(`webhook ${transcript.request.webhook_url} -> ${response.status}`);
+    } catch (error) {
+      console.error('webhook delivery failed:', error.message);
+    }
+  }
+}
+
+createServer(async (request, response) => {
+  if (!request.headers.authorization) {
+    return sendJson(response, 401, { error: 'Authentication error' });
+  }
+
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+
+  if (request.method === 'POST' && url.pathname === '/v2/upload') {
+    const body = await readBody(request);
+    console.log(`upload received (${body.length} bytes)`);
+    return sendJson(response, 200, { upload_url: `http://localhost:${PORT}/uploads/${randomUUID()}` });
+  }
+
+  if (request.method === 'POST' && url.pathname === '/v2/transcript') {
+    const body = JSON.parse((await readBody(request)).toString() || '{}');
+    const id = randomUUID();
+    transcripts.set(id, { id, status: 'queued', text: '', request: body });
+    setTimeout(() => complete(id), DELAY_MS);
+    console.log(`transcript ${id} queued`);
+    return sendJson(response, 200, { id, status: 'queued' });
+  }
+
+  const match = url.pathname.match(/^\/v2\/transcript\/([\w-]+)$/);
+  if (request.method === 'GET' && match) {
+    const transcript = transcripts.get(match[1]);
+    if (!transcript) {
+      return sendJson(response, 404, { error: 'Transcript not found' });
+    }
+    const { request: _request, ...body } = transcript;
+    return sendJson(response, 200, body);
+  }
+
+  sendJson(response, 404, { error: 'Not found' });
+}).listen(PORT, () => {
+  console.log(`AssemblyAI stub listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,80 @@
+// Runs each transcription backend's normalizer over its recorded response in
+// src/app/lib/transcription/fixtures and compares the result with the stored
+// .expected.json, so the normalizers can be checked without network access.
+//
+//   npm run check:transcribers            # compare
+//   npm run check:transcribers -- --update # rewrite the expected files after a deliberate change
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { fromAssemblyAIResponse } from '../src/app/lib/transcription/backends/assemblyai';
+import { fromDeepgramResponse } from '../src/app/lib/transcription/backends/deepgram';
+import { fromWhisperResponse } from '../src/app/lib/transcription/backends/whisper';
+import { Transcript } from '../src/app/lib/transcript-model';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'src', 'app', 'lib', 'transcription', 'fixtures');
+
+const NORMALIZERS: Record<string, (response: never) => Transcript> = {
+  assemblyai: (response) => {
+    const outcome = fromAssemblyAIResponse(response);
+    if (outcome.status !== 'completed') throw new Error(`Fixture is ${outcome.status}`);
+    return outcome.transcript;
+  },
+  deepgram: fromDeepgramResponse,
+  'openai-whisper': fromWhisperResponse,
+  'whisper-cpp': fromWhisperResponse,
+};
+
+// Properties every backend's output must have, whatever the expected file says
+function structuralProblems(transcript: Transcript): string[] {
+  const problems: string[] = [];
+  const speakers = new Set(transcript.speakers.map(speaker => speaker.id));
+  let previousStart = -1;
+
+  if (transcript.segments.length === 0) problems.push('no segments');
+
+  transcript.segments.forEach((segment, i) => {
+    if (!speakers.has(segment.speaker)) problems.push(`segment ${i}: speaker ${segment.speaker} not in speakers`);
+    if (segment.start < previousStart) problems.push(`segment ${i}: starts before the previous segment`);
+    previousStart = segment.start;
+
+    segment.paragraphs.forEach((paragraph, j) => {
+      const where = `segment ${i} paragraph ${j}`;
+      if (!paragraph.text.trim()) problems.push(`${where}: empty text`);
+      if (!Number.isInteger(paragraph.start) || !Number.isInteger(paragraph.end)) problems.push(`${where}: times are not whole milliseconds`);
+      if (paragraph.end < paragraph.start) problems.push(`${where}: ends before it starts`);
+      for (const word of paragraph.words || []) {
+        if (word.start < paragraph.start || word.end > paragraph.end) problems.push(`${where}: word "${word.text}" outside the paragraph`);
+        if (word.confidence !== undefined && (word.confidence < 0 || word.confidence > 1)) problems.push(`${where}: word "${word.text}" confidence out of range`);
+      }
+    });
+  });
+
+  return problems;
+}
+
+const update = process.argv.includes('--update');
+let failed = false;
+
+for (const [name, normalize] of Object.entries(NORMALIZERS)) {
+  const response = JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+  const expectedPath = path.join(FIXTURES_DIR, `${name}.expected.json`);
+  const transcript = normalize(response as never);
+  const problems = structuralProblems(transcript);
+
+  if (update) {
+    writeFileSync(expectedPath, `${JSON.stringify(transcript, null, 2)}\n`);
+  } else if (JSON.stringify(transcript) !== JSON.stringify(JSON.parse(readFileSync(expectedPath, 'utf8')))) {
+    problems.push(`output differs from ${path.basename(expectedPath)}`);
+  }
+
+  if (problems.length > 0) {
+    failed = true;
+    console.log(`✗ ${name}\n${problems.map(problem => `    ${problem}`).join('\n')}`);
+  } else {
+    const words = transcript.segments.flatMap(segment => segment.paragraphs.flatMap(paragraph => paragraph.words || [])).length;
+    console.log(`✓ ${name}: ${transcript.segments.length} segments, ${words} words${update ? ' (expected file updated)' : ''}`);
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,163 @@
+// Runs the enhancement pipeline over the golden transcripts in
+// src/app/lib/enhancement/fixtures (<case>.raw.md, and the hand-edited
+// <case>.expected.md) and scores each output with the metrics in
+// eval-metrics.ts. By default providers are answered by the replaying stub in
+// llm-stub.ts, so the run is offline and repeatable; scores are compared with
+// baseline.json and a drop beyond the tolerance fails the run.
+//
+//   npm run eval:enhancement                                   # replay and compare
+//   npm run eval:enhancement -- --provider gemini --profile verbatim --case interview
+//   npm run eval:enhancement -- --record                       # call the real API, save its responses
+//   npm run eval:enhancement -- --update                       # rewrite the baseline after a deliberate change
+//
+// A changed prompt has no recordings yet: record it with real API keys, then
+// run again to compare its scores with the baseline.
+
+import { readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { ChunkOptions, createChunks } from '../src/app/lib/enhancement/chunking';
+import { enhanceTranscript } from '../src/app/lib/enhancement/pipeline';
+import { DEFAULT_PROMPT_PROFILE, getPromptProfile } from '../src/app/lib/enhancement/profiles';
+import { createProvider, isProviderConfigured } from '../src/app/lib/enhancement/providers';
+import { EnhancementProvider, ProviderId } from '../src/app/lib/enhancement/types';
+import { parseMarkdownTranscript } from '../src/app/lib/transcript';
+import { fromMarkdown, toTranscriptSegments } from '../src/app/lib/transcript-model';
+import { EvalMetrics, LOWER_IS_BETTER, METRIC_NAMES, scoreEnhancement } from './eval-metrics';
+import { RECORDINGS_DIR, Recordings, loadRecordings, recordingKey, startLlmStub } from './llm-stub';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'src', 'app', 'lib', 'enhancement', 'fixtures');
+const BASELINE_PATH = path.join(FIXTURES_DIR, 'baseline.json');
+const REPLAY_PROVIDERS: ProviderId[] = ['anthropic', 'gemini'];
+// Far smaller than the real defaults, so the short fixtures are split across
+// chunks and long turns are cut mid-turn, as they are in a full episode
+const CHUNKING: ChunkOptions = { maxTokens: 120, contextTokens: 40 };
+// How far a score may fall below the baseline before the run fails
+const TOLERANCE = 0.02;
+
+type Baseline = Record<string, EvalMetrics>;
+
+function option(name: string): string | undefined {
+  const at = process.argv.indexOf(`--${name}`);
+  return at >= 0 ? process.argv[at + 1] : undefined;
+}
+
+const record = process.argv.includes('--record');
+const update = process.argv.includes('--update');
+const profileId = option('profile') || DEFAULT_PROMPT_PROFILE;
+const cases = readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith('.raw.md'))
+  .map(file => file.replace(/\.raw\.md$/, ''))
+  .filter(name => !option('case') || name === option('case'))
+  .sort();
+
+// Wraps a real provider so every response is kept for the stub to replay
+function recording(provider: EnhancementProvider, recordings: Recordings): EnhancementProvider {
+  return {
+    ...provider,
+    async enhance(request) {
+      const response = await provider.enhance(request);
+      recordings[recordingKey(request.system, request.text)] = { text: response.text, stop_reason: response.stopReason };
+      return response;
+    },
+  };
+}
+
+function regressions(metrics: EvalMetrics, baseline: EvalMetrics | undefined): string[] {
+  if (!baseline) return [];
+  return METRIC_NAMES.flatMap(name => {
+    const change = LOWER_IS_BETTER.has(name) ? baseline[name] - metrics[name] : metrics[name] - baseline[name];
+    return change < -TOLERANCE ? [`${name} ${metrics[name]} (baseline ${baseline[name]})`] : [];
+  });
+}
+
+async function main(): Promise<boolean> {
+  const profile = await getPromptProfile(profileId);
+  if (!profile) {
+    console.error(`Unknown prompt profile: ${profileId}`);
+    return false;
+  }
+
+  const providerIds = option('provider') ? [option('provider') as ProviderId] : REPLAY_PROVIDERS;
+  const stub = record ? null : await startLlmStub();
+  if (stub) {
+    // Set before any provider is created, since they read these once
+    Object.assign(process.env, {
+      ANTHROPIC_BASE_URL: stub.url,
+      CLAUDE_API_KEY: 'stub',
+      GEMINI_BASE_URL: stub.url,
+      GEMINI_API_KEY: 'stub',
+    });
+  }
+
+  const baseline: Baseline = JSON.parse(readFileSync(BASELINE_PATH, 'utf8'));
+  let failed = false;
+
+  try {
+    for (const providerId of providerIds) {
+      if (record && !isProviderConfigured(providerId)) {
+        console.log(`- ${providerId}: not configured, skipped`);
+        continue;
+      }
+
+      const recordings = loadRecordings(RECORDINGS_DIR, providerId);
+      const provider = record ? recording(createProvider(providerId), recordings) : createProvider(providerId);
+
+      for (const name of cases) {
+        const key = `${providerId}/${profile.id}/${name}`;
+        const raw = readFileSync(path.join(FIXTURES_DIR, `${name}.raw.md`), 'utf8');
+        const expected = readFileSync(path.join(FIXTURES_DIR, `${name}.expected.md`), 'utf8');
+        const missesBefore = stub ? stub.misses.anthropic + stub.misses.gemini : 0;
+
+        const segments = parseMarkdownTranscript(raw);
+        const transcript = fromMarkdown(raw);
+        const chunks = createChunks(toTranscriptSegments(transcript), CHUNKING);
+        const result = await enhanceTranscript(transcript, provider, { profile, chunking: CHUNKING });
+        const metrics = scoreEnhancement(raw, expected, result.enhanced_transcript);
+
+        const problems = regressions(metrics, baseline[key]);
+        const missed = stub ? stub.misses.anthropic + stub.misses.gemini - missesBefore : 0;
+        if (missed > 0) {
+          problems.push(`${missed} of ${chunks.length} requests have no recording; run with --record`);
+        }
+        if (result.chunks_processed !== chunks.length) {
+          problems.push(`pipeline made ${result.chunks_processed} chunks, createChunks ${chunks.length}`);
+        }
+
+        const scores = METRIC_NAMES.map(metric => `${metric} ${metrics[metric]}`).join(', ');
+        const summary = `${segments.length} turns, ${chunks.length} chunks, ${result.faithfulness.fellBack.length} fell back`;
+        if (update && missed === 0) {
+          baseline[key] = metrics;
+        }
+
+        if (problems.length > 0 && !update) {
+          failed = true;
+          console.log(`✗ ${key}: ${summary}\n    ${scores}\n${problems.map(problem => `    ${problem}`).join('\n')}`);
+        } else {
+          const note = !baseline[key] ? ' (no baseline)' : update ? ' (baseline updated)' : '';
+          console.log(`✓ ${key}: ${summary}${note}\n    ${scores}`);
+        }
+      }
+
+      if (record) {
+        const sorted = Object.fromEntries(Object.entries(recordings).sort(([a], [b]) => a.localeCompare(b)));
+        writeFileSync(path.join(RECORDINGS_DIR, `${providerId}.json`), `${JSON.stringify(sorted, null, 2)}\n`);
+      }
+    }
+  } finally {
+    await stub?.close();
+  }
+
+  if (update) {
+    const sorted = Object.fromEntries(Object.entries(baseline).sort(([a], [b]) => a.localeCompare(b)));
+    writeFileSync(BASELINE_PATH, `${JSON.stringify(sorted, null, 2)}\n`);
+  }
+  return !failed;
+}
+
+main().then(
+  passed => process.exit(passed ? 0 : 1),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);
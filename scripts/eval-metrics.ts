@@ -0,0 +1,72 @@
+// Scores an enhanced transcript against a hand-edited golden one. All scores
+// are 0-1; novel_words is the only one where lower is better.
+
+import { commonSubsequenceLength } from '../src/app/lib/enhancement/faithfulness';
+import { parseMarkdownTranscript } from '../src/app/lib/transcript';
+
+export interface EvalMetrics {
+  // Share of the fillers the golden edit removed that the output removed too
+  filler_recall: number;
+  // Share of the golden edit's words found, in order, in the output
+  word_preservation: number;
+  // Share of output words that appear nowhere in the raw transcript
+  novel_words: number;
+  // Share of speaker headers (speaker and timestamp) that match the golden edit, in order
+  header_integrity: number;
+}
+
+export const METRIC_NAMES: (keyof EvalMetrics)[] = ['filler_recall', 'word_preservation', 'novel_words', 'header_integrity'];
+export const LOWER_IS_BETTER = new Set<keyof EvalMetrics>(['novel_words']);
+
+// Counted against the golden edit, so a "like" or "kind of" it keeps doesn't count as a filler
+const FILLERS = ['um', 'uh', 'ah', 'er', 'hmm', 'mm', 'you know', 'i mean', 'like', 'sort of', 'kind of', 'yeah', 'so', 'well', 'right'];
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const ratio = (part: number, whole: number) => (whole === 0 ? 1 : part / whole);
+
+function transcriptWords(markdown: string): string[] {
+  return parseMarkdownTranscript(markdown)
+    .flatMap(segment => segment.text.toLowerCase().split(/\s+/))
+    .map(word => word.replace(/[^\p{L}\p{N}']/gu, ''))
+    .filter(Boolean);
+}
+
+function headers(markdown: string): string[] {
+  return parseMarkdownTranscript(markdown).map(segment => `${segment.speaker} ${segment.timestamp}`);
+}
+
+function countFillers(words: string[]): Map<string, number> {
+  const text = ` ${words.join(' ')} `;
+  return new Map(FILLERS.map(filler => [filler, text.split(` ${filler} `).length - 1]));
+}
+
+function fillerRecall(raw: string[], expected: string[], output: string[]): number {
+  const [before, golden, after] = [raw, expected, output].map(countFillers);
+  let removed = 0;
+  let matched = 0;
+  for (const filler of FILLERS) {
+    const goldenRemoved = Math.max(0, before.get(filler)! - golden.get(filler)!);
+    removed += goldenRemoved;
+    matched += Math.min(goldenRemoved, Math.max(0, before.get(filler)! - after.get(filler)!));
+  }
+  return ratio(matched, removed);
+}
+
+export function scoreEnhancement(raw: string, expected: string, output: string): EvalMetrics {
+  const rawWords = transcriptWords(raw);
+  const expectedWords = transcriptWords(expected);
+  const outputWords = transcriptWords(output);
+  const vocabulary = new Set(rawWords);
+  const expectedHeaders = headers(expected);
+  const outputHeaders = headers(output);
+
+  return {
+    filler_recall: round(fillerRecall(rawWords, expectedWords, outputWords)),
+    word_preservation: round(ratio(commonSubsequenceLength(expectedWords, outputWords), expectedWords.length)),
+    novel_words: round(1 - ratio(outputWords.filter(word => vocabulary.has(word)).length, outputWords.length)),
+    header_integrity: round(ratio(
+      commonSubsequenceLength(expectedHeaders, outputHeaders),
+      Math.max(expectedHeaders.length, outputHeaders.length)
+    )),
+  };
+}
@@ -0,0 +1,117 @@
+// Stand-in for the Anthropic Messages and Gemini generateContent APIs that
+// replays recorded responses, so enhancement can run offline. Used by
+// scripts/eval-enhancement.ts, or on its own to point the app at:
+//
+//   npm run stub:llm
+//   ANTHROPIC_BASE_URL=http://localhost:4020 CLAUDE_API_KEY=stub \
+//   GEMINI_BASE_URL=http://localhost:4020 GEMINI_API_KEY=stub npm run dev
+//
+// Recordings are JSON files named after the provider (anthropic.json,
+// gemini.json), mapping recordingKey(system, text) to { text, stop_reason }.
+// A prompt without a recording gets a 404, as a changed prompt must be recorded again.
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+
+export const RECORDINGS_DIR = path.join(__dirname, '..', 'src', 'app', 'lib', 'enhancement', 'fixtures', 'recordings');
+
+export interface RecordedResponse {
+  text: string;
+  stop_reason?: string;
+}
+
+export type Recordings = Record<string, RecordedResponse>;
+
+export interface LlmStub {
+  url: string;
+  // Requests that had no recording, by provider
+  misses: { anthropic: number; gemini: number };
+  close(): Promise<void>;
+}
+
+const hashPrompt = (prompt: string) => createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+
+// The Gemini provider sends system prompt and chunk as one text, joined this same way
+export function recordingKey(system: string, text: string): string {
+  return hashPrompt(`${system}\n\n${text}`);
+}
+
+export function loadRecordings(directory: string, provider: string): Recordings {
+  const file = path.join(directory, `${provider}.json`);
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {};
+}
+
+async function readJson(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const parts: Buffer[] = [];
+  for await (const part of request) parts.push(part);
+  return JSON.parse(Buffer.concat(parts).toString('utf8') || '{}');
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+export function startLlmStub(directory: string = RECORDINGS_DIR, port = 0): Promise<LlmStub> {
+  const recordings = { anthropic: loadRecordings(directory, 'anthropic'), gemini: loadRecordings(directory, 'gemini') };
+  const misses = { anthropic: 0, gemini: 0 };
+
+  const server: Server = createServer(async (request, response) => {
+    try {
+      if (request.method === 'POST' && request.url?.startsWith('/v1/messages')) {
+        const body = await readJson(request);
+        const messages = body.messages as { content: string }[];
+        const recorded = recordings.anthropic[recordingKey(String(body.system), messages[0].content)];
+        if (!recorded) {
+          misses.anthropic++;
+          return sendJson(response, 404, { type: 'error', error: { type: 'not_found_error', message: 'No recorded response for this prompt' } });
+        }
+        return sendJson(response, 200, {
+          type: 'message',
+          role: 'assistant',
+          model: body.model,
+          content: [{ type: 'text', text: recorded.text }],
+          stop_reason: recorded.stop_reason ?? 'end_turn',
+        });
+      }
+
+      if (request.method === 'POST' && /\/models\/[^/:]+:generateContent/.test(request.url || '')) {
+        const body = await readJson(request);
+        const contents = body.contents as { parts: { text?: string }[] }[];
+        const prompt = contents.flatMap(content => content.parts).map(part => part.text ?? '').join('');
+        const recorded = recordings.gemini[hashPrompt(prompt)];
+        if (!recorded) {
+          misses.gemini++;
+          return sendJson(response, 404, { error: { code: 404, message: 'No recorded response for this prompt', status: 'NOT_FOUND' } });
+        }
+        return sendJson(response, 200, {
+          candidates: [{ content: { role: 'model', parts: [{ text: recorded.text }] }, finishReason: recorded.stop_reason ?? 'STOP' }],
+        });
+      }
+
+      sendJson(response, 404, { error: `No stub for ${request.method} ${request.url}` });
+    } catch (error) {
+      sendJson(response, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        misses,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.STUB_PORT || 4020);
+  void startLlmStub(process.env.RECORDINGS_DIR || RECORDINGS_DIR, port).then(stub => {
+    console.log(`LLM stub replaying recordings on ${stub.url}`);
+  });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clipFileName, renderClip } from '../../../lib/media/clip';
+import { getUploadStore } from '../../../lib/uploads';
+
+// Long enough for any short-form clip, short enough not to tie up the server
+const MAX_RENDER_MS = 10 * 60 * 1000;
+
+// Cuts `start`-`end` (ms) from an upload's original file with the bundled ffmpeg
+// and returns the clip itself: MP4 for video, M4A for audio-only sources
+export async function POST(request: NextRequest) {
+  try {
+    const { uploadId, start, end } = await request.json();
+
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start || end - start > MAX_RENDER_MS) {
+      return NextResponse.json(
+        { error: `start and end must give a window of at most ${MAX_RENDER_MS / 60000} minutes` },
+        { status: 400 }
+      );
+    }
+
+    const source = typeof uploadId === 'string' ? await getUploadStore().source(uploadId) : null;
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Upload not found or not complete' },
+        { status: 404 }
+      );
+    }
+
+    const clip = await renderClip(source.path, { start, end });
+
+    return new NextResponse(new Uint8Array(clip.data), {
+      headers: {
+        'Content-Type': clip.mimeType,
+        'Content-Disposition': `attachment; filename="${clipFileName(source.fileName, { start, end }, clip.extension === 'mp4')}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Clip render error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
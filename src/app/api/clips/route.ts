@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CaptionOptions, DEFAULT_CAPTION_OPTIONS } from '../../lib/captions';
+import { DEFAULT_CLIP_COUNT, DEFAULT_MAX_CLIP_MS, DEFAULT_MIN_CLIP_MS, clipSrt, findClips } from '../../lib/clips';
+import { clipCommand } from '../../lib/media/clip';
+import { parseSpeakerNames } from '../../lib/speakers';
+import { readTranscriptInput } from '../../lib/transcript-model';
+
+const MAX_CLIP_COUNT = 20;
+
+const positive = (value: unknown, fallback: number) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+function readCaptionOptions(value: unknown): CaptionOptions {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof CaptionOptions, unknown>>;
+  return {
+    maxCharsPerLine: positive(input.maxCharsPerLine, DEFAULT_CAPTION_OPTIONS.maxCharsPerLine),
+    maxLinesPerCue: positive(input.maxLinesPerCue, DEFAULT_CAPTION_OPTIONS.maxLinesPerCue),
+    maxCueDurationMs: positive(input.maxCueDurationMs, DEFAULT_CAPTION_OPTIONS.maxCueDurationMs),
+    speakerPrefixes: typeof input.speakerPrefixes === 'boolean' ? input.speakerPrefixes : DEFAULT_CAPTION_OPTIONS.speakerPrefixes,
+  };
+}
+
+// Suggests short-form clips from a finished transcript. Each comes with an
+// ffmpeg command for the source file (`fileName`, and `mimeType` to tell audio
+// from video) and an SRT timed from the start of the clip.
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+    const transcript = readTranscriptInput(input.structured_transcript, input.transcript);
+
+    if (!transcript || transcript.segments.length === 0) {
+      return NextResponse.json(
+        { error: 'No transcript provided' },
+        { status: 400 }
+      );
+    }
+
+    const minMs = positive(input.minSeconds, DEFAULT_MIN_CLIP_MS / 1000) * 1000;
+    const maxMs = positive(input.maxSeconds, DEFAULT_MAX_CLIP_MS / 1000) * 1000;
+
+    if (maxMs < minMs) {
+      return NextResponse.json(
+        { error: 'maxSeconds must not be less than minSeconds' },
+        { status: 400 }
+      );
+    }
+
+    const fileName = typeof input.fileName === 'string' && input.fileName ? input.fileName : 'input.mp4';
+    const video = typeof input.mimeType === 'string' && input.mimeType ? !input.mimeType.startsWith('audio/') : true;
+    const captionOptions = readCaptionOptions(input.captionOptions);
+    const speakerNames = parseSpeakerNames(input.speakerNames);
+
+    const clips = findClips(transcript, {
+      count: Math.min(Math.floor(positive(input.count, DEFAULT_CLIP_COUNT)), MAX_CLIP_COUNT),
+      minMs,
+      maxMs,
+    }).map(clip => ({
+      ...clip,
+      speakers: clip.speakers.map(speaker => speakerNames[speaker] || speaker),
+      ffmpeg_command: clipCommand(fileName, clip, video),
+      srt: clipSrt(transcript, clip, captionOptions, speakerNames),
+    }));
+
+    return NextResponse.json({ clips });
+
+  } catch (error) {
+    console.error('Clip finder error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '../../../lib/jobs';
+import { refreshTranscriptionJob } from '../../../lib/jobs/transcription';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getJobStore();
+    const job = await store.get(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await refreshTranscriptionJob(store, job));
+
+  } catch (error) {
+    console.error('Job status error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
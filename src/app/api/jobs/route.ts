@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPromptProfile } from '../../lib/enhancement/profiles';
+import { parseGlossary } from '../../lib/glossary';
+import { getJobStore } from '../../lib/jobs';
+import { createMultiTrackJob, createTranscriptionJob } from '../../lib/jobs/transcription';
+import { DEFAULT_TRANSCRIBER, createTranscriber, isTranscriberConfigured, isTranscriberId } from '../../lib/transcription/backends';
+import { UploadInfo, getUploadStore, readUploadRequest } from '../../lib/uploads';
+
+// Multi-track jobs send one upload per speaker instead of a single file
+async function readTracks(value: unknown): Promise<{ upload: UploadInfo; speaker: string }[] | string> {
+  if (!Array.isArray(value) || value.length === 0) {
+    return 'Tracks must be a non-empty array';
+  }
+
+  const tracks: { upload: UploadInfo; speaker: string }[] = [];
+  for (const track of value) {
+    const speaker = typeof track?.speaker === 'string' ? track.speaker.trim() : '';
+    if (!speaker) {
+      return 'Every track needs a speaker name';
+    }
+
+    const upload = typeof track.uploadId === 'string' ? await getUploadStore().get(track.uploadId) : null;
+    if (!upload?.complete) {
+      return `Upload for ${speaker} is ${upload ? 'not complete' : 'missing'}`;
+    }
+
+    tracks.push({ upload, speaker });
+  }
+  return tracks;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { upload, input } = await readUploadRequest(request);
+    const transcriberId = input.transcriber ?? DEFAULT_TRANSCRIBER;
+
+    if (!isTranscriberId(transcriberId)) {
+      return NextResponse.json(
+        { error: `Unknown transcriber: ${transcriberId}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isTranscriberConfigured(transcriberId)) {
+      return NextResponse.json(
+        { error: `${createTranscriber(transcriberId).label} is not configured` },
+        { status: 500 }
+      );
+    }
+
+    // JSON bodies carry an array, multipart bodies a JSON string
+    const glossary = parseGlossary(input.glossary);
+    const promptProfile = typeof input.profile === 'string' ? input.profile : undefined;
+
+    if (promptProfile && !(await getPromptProfile(promptProfile))) {
+      return NextResponse.json(
+        { error: `Unknown prompt profile: ${promptProfile}` },
+        { status: 400 }
+      );
+    }
+
+    if (input.tracks !== undefined) {
+      const tracks = await readTracks(input.tracks);
+
+      if (typeof tracks === 'string') {
+        return NextResponse.json(
+          { error: tracks },
+          { status: 400 }
+        );
+      }
+
+      const job = await createMultiTrackJob(getJobStore(), tracks, glossary, transcriberId, promptProfile);
+
+      return NextResponse.json({ id: job.id, status: job.status }, { status: 202 });
+    }
+
+    if (!upload?.complete) {
+      return NextResponse.json(
+        { error: upload ? 'Upload is not complete' : 'No upload or file provided' },
+        { status: 400 }
+      );
+    }
+
+    const job = await createTranscriptionJob(getJobStore(), upload, glossary, transcriberId, promptProfile);
+
+    return NextResponse.json({ id: job.id, status: job.status }, { status: 202 });
+
+  } catch (error) {
+    console.error('Job creation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibraryStore } from '../../../../lib/library';
+
+// The transcriber's response exactly as it was received, for re-processing or debugging
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const response = await getLibraryStore().getResponse(id);
+
+    if (response === null) {
+      return NextResponse.json({ error: 'No transcriber response stored for this entry' }, { status: 404 });
+    }
+
+    return new NextResponse(response, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${id}-response.json"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Library response read error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
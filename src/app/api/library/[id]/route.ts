@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '../../../lib/jobs';
+import { getLibraryStore } from '../../../lib/library';
+import { getUploadStore } from '../../../lib/uploads';
+
+const notFound = () => NextResponse.json({ error: 'Library entry not found' }, { status: 404 });
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entry = await getLibraryStore().get(id);
+    return entry ? NextResponse.json(entry) : notFound();
+
+  } catch (error) {
+    console.error('Library read error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Renames an entry; the title is the only thing about it that can be edited
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { title } = await request.json();
+
+    if (typeof title !== 'string' || !title.trim()) {
+      return NextResponse.json(
+        { error: 'A non-empty title is required' },
+        { status: 400 }
+      );
+    }
+
+    const entry = await getLibraryStore().rename(id, title.trim());
+    return entry ? NextResponse.json(entry) : notFound();
+
+  } catch (error) {
+    console.error('Library rename error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entry = await getLibraryStore().delete(id);
+
+    if (!entry) {
+      return notFound();
+    }
+
+    // The recording goes with its entry: the uploads it came from and the job's audio
+    await Promise.all((entry.source.uploads || []).map(uploadId => getUploadStore().delete(uploadId)));
+    await getJobStore().deleteAudio(id);
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error) {
+    console.error('Library delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibraryStore } from '../../lib/library';
+
+// Past transcripts, newest first; `q` searches titles, file names and transcript text
+export async function GET(request: NextRequest) {
+  try {
+    const entries = await getLibraryStore().list(request.nextUrl.searchParams.get('q') || '');
+    return NextResponse.json({ entries });
+
+  } catch (error) {
+    console.error('Library list error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseProviderOverrides } from '../../lib/enhancement/config';
+import { createProvider, isProviderConfigured, isProviderId } from '../../lib/enhancement/providers';
+import { DEFAULT_QUOTE_COUNT, generateShowNotes } from '../../lib/show-notes';
+import { parseSpeakerNames } from '../../lib/speakers';
+import { readTranscriptInput } from '../../lib/transcript-model';
+
+const MAX_QUOTE_COUNT = 30;
+
+// Chapters, a summary, guest bio drafts and verified pull quotes for a finished
+// transcript. Takes the same `structured_transcript` or Markdown `transcript`,
+// `provider` and model overrides as /api/enhance.
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+    const transcript = readTranscriptInput(input.structured_transcript, input.transcript);
+
+    if (!transcript || transcript.segments.length === 0) {
+      return NextResponse.json(
+        { error: 'No transcript provided' },
+        { status: 400 }
+      );
+    }
+
+    const providerId = input.provider ?? 'anthropic';
+
+    if (!isProviderId(providerId)) {
+      return NextResponse.json(
+        { error: `Unknown enhancement provider: ${providerId}` },
+        { status: 400 }
+      );
+    }
+
+    const provider = createProvider(providerId, parseProviderOverrides(input));
+
+    if (!isProviderConfigured(providerId)) {
+      return NextResponse.json(
+        { error: `${provider.label} API key not configured` },
+        { status: 500 }
+      );
+    }
+
+    const quoteCount = Number(input.quoteCount);
+
+    const notes = await generateShowNotes(transcript, provider, {
+      speakerNames: parseSpeakerNames(input.speakerNames),
+      quoteCount: Number.isInteger(quoteCount) && quoteCount > 0 ? Math.min(quoteCount, MAX_QUOTE_COUNT) : DEFAULT_QUOTE_COUNT,
+    });
+
+    return NextResponse.json(notes);
+
+  } catch (error) {
+    console.error('Show notes error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,145 +1,97 @@
+import { openAsBlob } from 'fs';
 import { NextRequest, NextResponse } from 'next/server';
-
-interface AssemblyAIResponse {
-  id: string;
-  status: 'queued' | 'processing' | 'completed' | 'error';
-  text: string;
-  utterances?: Array<{
-    confidence: number;
-    start: number;
-    end: number;
-    text: string;
-    speaker: string;
-  }>;
-  error?: string;
-}
-
-function formatTimestamp(milliseconds: number): string {
-  const seconds = Math.floor(milliseconds / 1000);
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = seconds % 60;
-  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-}
-
-function formatTranscriptToMarkdown(utterances: AssemblyAIResponse['utterances']): string {
-  if (!utterances || utterances.length === 0) {
-    return 'No transcript available.';
-  }
-
-  let markdown = '';
-  let currentSpeaker = '';
-
-  for (const utterance of utterances) {
-    if (utterance.speaker !== currentSpeaker) {
-      currentSpeaker = utterance.speaker;
-      const timestamp = formatTimestamp(utterance.start);
-      const speakerLabel = utterance.speaker.replace('speaker_', 'Speaker ').toUpperCase();
-      markdown += `\n${speakerLabel} ${timestamp}\n\n`;
-    }
-    markdown += utterance.text + '\n\n';
-  }
-
-  return markdown.trim();
+import { parseGlossary } from '../../lib/glossary';
+import { saveToLibrary } from '../../lib/library';
+import { renderMarkdown } from '../../lib/transcript-model';
+import {
+  DEFAULT_TRANSCRIBER,
+  createTranscriber,
+  isTranscriberConfigured,
+  isTranscriberId,
+  listConfiguredTranscribers,
+} from '../../lib/transcription/backends';
+import { TranscriptionOutcome } from '../../lib/transcription/types';
+import { getUploadStore, readUploadRequest } from '../../lib/uploads';
+
+export async function GET() {
+  return NextResponse.json({ transcribers: listConfiguredTranscribers() });
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.ASSEMBLY_AI_API_KEY;
-    
-    if (!apiKey) {
+    const { upload, input } = await readUploadRequest(request);
+
+    if (!upload?.complete) {
       return NextResponse.json(
-        { error: 'AssemblyAI API key not configured' },
-        { status: 500 }
+        { error: upload ? 'Upload is not complete' : 'No upload or file provided' },
+        { status: 400 }
       );
     }
 
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
+    const transcriberId = input.transcriber ?? DEFAULT_TRANSCRIBER;
 
-    if (!file) {
+    if (!isTranscriberId(transcriberId)) {
       return NextResponse.json(
-        { error: 'No file provided' },
+        { error: `Unknown transcriber: ${transcriberId}` },
         { status: 400 }
       );
     }
 
-    // Step 1: Upload file to AssemblyAI
-    const uploadResponse = await fetch('https://api.assemblyai.com/v2/upload', {
-      method: 'POST',
-      headers: {
-        'authorization': apiKey,
-      },
-      body: file,
-    });
+    const transcriber = createTranscriber(transcriberId);
 
-    if (!uploadResponse.ok) {
-      throw new Error(`Upload failed: ${uploadResponse.status}`);
+    if (!isTranscriberConfigured(transcriberId)) {
+      return NextResponse.json(
+        { error: `${transcriber.label} is not configured` },
+        { status: 500 }
+      );
     }
 
-    const { upload_url } = await uploadResponse.json();
-
-    // Step 2: Start transcription
-    const transcriptResponse = await fetch('https://api.assemblyai.com/v2/transcript', {
-      method: 'POST',
-      headers: {
-        'authorization': apiKey,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify({
-        audio_url: upload_url,
-        speaker_labels: true,
-        auto_highlights: false,
-        disfluencies: false,
-        filter_profanity: false,
-        format_text: true,
-        punctuate: true,
-        speech_models: ['slam-1']
-      }),
-    });
-
-    if (!transcriptResponse.ok) {
-      throw new Error(`Transcription request failed: ${transcriptResponse.status}`);
-    }
+    const glossary = parseGlossary(input.glossary);
 
-    const { id } = await transcriptResponse.json();
+    // Step 1: Extract and compress the audio, then hand it to the transcriber
+    const audio = (await getUploadStore().audio(upload.id))!;
+    let outcome: TranscriptionOutcome = await transcriber.transcribe({
+      audio: await openAsBlob(audio.path, { type: audio.mimeType }),
+      fileName: audio.fileName,
+      glossary,
+    });
 
-    // Step 3: Poll for completion
-    let result: AssemblyAIResponse;
+    // Step 2: Poll asynchronous backends for completion
     let attempts = 0;
     const maxAttempts = 60; // 10 minutes max
 
-    do {
+    while ((outcome.status === 'queued' || outcome.status === 'processing') && transcriber.poll) {
       await new Promise(resolve => setTimeout(resolve, 10000)); // Wait 10 seconds
-      
-      const pollResponse = await fetch(`https://api.assemblyai.com/v2/transcript/${id}`, {
-        headers: {
-          'authorization': apiKey,
-        },
-      });
-
-      if (!pollResponse.ok) {
-        throw new Error(`Polling failed: ${pollResponse.status}`);
-      }
 
-      result = await pollResponse.json();
+      outcome = await transcriber.poll(outcome.externalId);
       attempts++;
 
       if (attempts >= maxAttempts) {
         throw new Error('Transcription timeout');
       }
-    } while (result.status === 'queued' || result.status === 'processing');
+    }
 
-    if (result.status === 'error') {
-      throw new Error(result.error || 'Transcription failed');
+    if (outcome.status === 'error') {
+      throw new Error(outcome.error);
     }
 
-    // Format the response to markdown
-    const markdownTranscript = formatTranscriptToMarkdown(result.utterances);
+    if (outcome.status !== 'completed') {
+      throw new Error(`${transcriber.label} did not finish the transcription`);
+    }
+
+    const entry = await saveToLibrary({
+      source: { fileName: upload.fileName, fileSize: upload.fileSize, transcriber: transcriber.id, uploads: [upload.id] },
+      transcript: outcome.transcript,
+      response: outcome.response,
+    });
 
     return NextResponse.json({
-      transcript: markdownTranscript,
-      raw_text: result.text,
+      library_id: entry?.id,
+      transcript: renderMarkdown(outcome.transcript),
+      raw_text: outcome.rawText,
+      structured_transcript: outcome.transcript,
+      transcriber: transcriber.id,
+      preprocessing: audio.report,
     });
 
   } catch (error) {
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseProviderOverrides } from '../../lib/enhancement/config';
+import { createProvider, isProviderConfigured, isProviderId } from '../../lib/enhancement/providers';
+import { readTranscriptInput } from '../../lib/transcript-model';
+import { MAX_LANGUAGE_LENGTH, translateTranscript } from '../../lib/translation';
+
+// Terms arrive as an array, or as one term per line from a text box
+function readKeepTerms(value: unknown): string[] {
+  const terms = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/\r?\n/) : [];
+  return Array.from(new Set(
+    terms.filter((term): term is string => typeof term === 'string').map(term => term.trim()).filter(Boolean)
+  ));
+}
+
+// Translates a finished transcript into `language`, paragraph for paragraph, so
+// the result keeps the source's speakers and timings. Takes the same
+// `structured_transcript` or Markdown `transcript`, `provider` and model
+// overrides as /api/enhance, plus `keep`: terms to leave untranslated.
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+    const transcript = readTranscriptInput(input.structured_transcript, input.transcript);
+
+    if (!transcript || transcript.segments.length === 0) {
+      return NextResponse.json(
+        { error: 'No transcript provided' },
+        { status: 400 }
+      );
+    }
+
+    const language = typeof input.language === 'string' ? input.language.trim() : '';
+
+    if (!language || language.length > MAX_LANGUAGE_LENGTH) {
+      return NextResponse.json(
+        { error: 'A target language is required' },
+        { status: 400 }
+      );
+    }
+
+    const providerId = input.provider ?? 'anthropic';
+
+    if (!isProviderId(providerId)) {
+      return NextResponse.json(
+        { error: `Unknown enhancement provider: ${providerId}` },
+        { status: 400 }
+      );
+    }
+
+    const provider = createProvider(providerId, parseProviderOverrides(input));
+
+    if (!isProviderConfigured(providerId)) {
+      return NextResponse.json(
+        { error: `${provider.label} API key not configured` },
+        { status: 500 }
+      );
+    }
+
+    const result = await translateTranscript(transcript, provider, {
+      language,
+      keepTerms: readKeepTerms(input.keep),
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Translation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UploadOffsetError, getUploadStore } from '../../../lib/uploads';
+
+const notFound = () => NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+
+// How much of the upload has arrived, so an interrupted client knows where to resume
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const upload = await getUploadStore().get(id);
+  return upload ? NextResponse.json(upload) : notFound();
+}
+
+// Appends one part. The raw body is the part; `offset` says where it starts.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const offset = Number(request.nextUrl.searchParams.get('offset'));
+
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: 'A non-negative offset is required' },
+        { status: 400 }
+      );
+    }
+
+    const upload = await getUploadStore().append(id, offset, Buffer.from(await request.arrayBuffer()));
+    return upload ? NextResponse.json(upload) : notFound();
+
+  } catch (error) {
+    if (error instanceof UploadOffsetError) {
+      return NextResponse.json(
+        { error: error.message, receivedBytes: error.receivedBytes },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof RangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Upload part error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const store = getUploadStore();
+
+  if (!(await store.get(id))) {
+    return notFound();
+  }
+
+  await store.delete(id);
+  return new NextResponse(null, { status: 204 });
+}
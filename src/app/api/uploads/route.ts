@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUploadStore } from '../../lib/uploads';
+
+// Starts a resumable upload; the parts are then sent to PUT /api/uploads/[id]
+export async function POST(request: NextRequest) {
+  try {
+    const { fileName, fileSize, mimeType } = await request.json();
+
+    if (typeof fileName !== 'string' || !Number.isSafeInteger(fileSize) || fileSize <= 0) {
+      return NextResponse.json(
+        { error: 'fileName and a positive fileSize are required' },
+        { status: 400 }
+      );
+    }
+
+    const upload = await getUploadStore().create(
+      fileName,
+      fileSize,
+      typeof mimeType === 'string' ? mimeType : 'application/octet-stream'
+    );
+
+    return NextResponse.json(upload, { status: 201 });
+
+  } catch (error) {
+    console.error('Upload creation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { WEBHOOK_SECRET_HEADER, fetchTranscript } from '../../../lib/assemblyai';
+import { getJobStore } from '../../../lib/jobs';
+import { completeTranscriptionJob, recordTrackOutcome } from '../../../lib/jobs/transcription';
+import { fromAssemblyAIResponse } from '../../../lib/transcription/backends/assemblyai';
+
+function isValidSecret(received: string | null, expected: string): boolean {
+  if (!received) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const apiKey = process.env.ASSEMBLY_AI_API_KEY;
+    const secret = process.env.ASSEMBLY_AI_WEBHOOK_SECRET;
+
+    if (!apiKey || !secret) {
+      return NextResponse.json(
+        { error: 'AssemblyAI webhook not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (!isValidSecret(request.headers.get(WEBHOOK_SECRET_HEADER), secret)) {
+      return NextResponse.json(
+        { error: 'Invalid webhook secret' },
+        { status: 401 }
+      );
+    }
+
+    const jobId = request.nextUrl.searchParams.get('job');
+    const { transcript_id } = await request.json();
+
+    if (!jobId || !transcript_id) {
+      return NextResponse.json(
+        { error: 'Missing job or transcript id' },
+        { status: 400 }
+      );
+    }
+
+    const store = getJobStore();
+    const job = await store.get(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Multi-track jobs register one callback per track
+    const trackParam = request.nextUrl.searchParams.get('track');
+
+    if (trackParam !== null) {
+      const index = Number(trackParam);
+      const track = job.tracks?.[index];
+
+      if (!track) {
+        return NextResponse.json(
+          { error: 'Track not found' },
+          { status: 404 }
+        );
+      }
+
+      if (track.externalId && track.externalId !== transcript_id) {
+        return NextResponse.json(
+          { error: 'Transcript does not belong to this track' },
+          { status: 409 }
+        );
+      }
+
+      const outcome = fromAssemblyAIResponse(await fetchTranscript(apiKey, transcript_id));
+
+      if (outcome.status === 'queued' || outcome.status === 'processing') {
+        return NextResponse.json({ received: true });
+      }
+
+      const updated = await recordTrackOutcome(store, jobId, index, outcome);
+
+      return NextResponse.json({ received: true, status: updated.status });
+    }
+
+    // The callback can arrive before the submission step has recorded the id
+    if (job.externalId && job.externalId !== transcript_id) {
+      return NextResponse.json(
+        { error: 'Transcript does not belong to this job' },
+        { status: 409 }
+      );
+    }
+
+    // The callback only carries the id and status, so fetch the full transcript
+    const outcome = fromAssemblyAIResponse(await fetchTranscript(apiKey, transcript_id));
+
+    if (outcome.status === 'queued' || outcome.status === 'processing') {
+      return NextResponse.json({ received: true });
+    }
+
+    await store.update(jobId, { externalId: transcript_id });
+    const updated = await completeTranscriptionJob(store, jobId, outcome);
+
+    return NextResponse.json({ received: true, status: updated.status });
+
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { CaptionOptions, buildCaptionCues, toSrt, toVtt } from '../lib/captions';
+import { downloadFile } from '../lib/download';
+import { SpeakerNames } from '../lib/speakers';
+import { Transcript, toCaptionWords } from '../lib/transcript-model';
+
+interface CaptionButtonsProps {
+  transcript: Transcript | null;
+  options: CaptionOptions;
+  speakerNames: SpeakerNames;
+  filename: string;
+}
+
+export default function CaptionButtons({
+  transcript,
+  options,
+  speakerNames,
+  filename,
+}: CaptionButtonsProps) {
+  const words = toCaptionWords(transcript);
+
+  if (words.length === 0) return null;
+
+  const download = (format: 'srt' | 'vtt') => {
+    const cues = buildCaptionCues(words, options, speakerNames);
+
+    if (format === 'srt') {
+      downloadFile(toSrt(cues), `${filename}.srt`, 'application/x-subrip');
+    } else {
+      downloadFile(toVtt(cues), `${filename}.vtt`, 'text/vtt');
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => download('srt')}
+        className="bg-teal-600 hover:bg-teal-700 text-white font-medium 
+          py-2 px-4 rounded-md transition-colors text-sm"
+      >
+        SRT
+      </button>
+      <button
+        onClick={() => download('vtt')}
+        className="bg-teal-600 hover:bg-teal-700 text-white font-medium 
+          py-2 px-4 rounded-md transition-colors text-sm"
+      >
+        VTT
+      </button>
+    </>
+  );
+}
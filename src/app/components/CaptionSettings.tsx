@@ -0,0 +1,68 @@
+'use client';
+
+import { CaptionOptions } from '../lib/captions';
+
+interface CaptionSettingsProps {
+  options: CaptionOptions;
+  onChange: (options: CaptionOptions) => void;
+}
+
+const inputClassName = `w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+  bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100`;
+
+export default function CaptionSettings({ options, onChange }: CaptionSettingsProps) {
+  const updateNumber = (key: 'maxCharsPerLine' | 'maxLinesPerCue' | 'maxCueDurationMs', value: number) => {
+    if (Number.isFinite(value) && value > 0) {
+      onChange({ ...options, [key]: value });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+        Caption Settings
+      </h2>
+      <div className="flex flex-wrap gap-6 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-2">
+          Max characters per line
+          <input
+            type="number"
+            min={10}
+            value={options.maxCharsPerLine}
+            onChange={(e) => updateNumber('maxCharsPerLine', Number(e.target.value))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Max lines per cue
+          <input
+            type="number"
+            min={1}
+            value={options.maxLinesPerCue}
+            onChange={(e) => updateNumber('maxLinesPerCue', Number(e.target.value))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Max cue duration (s)
+          <input
+            type="number"
+            min={1}
+            step={0.5}
+            value={options.maxCueDurationMs / 1000}
+            onChange={(e) => updateNumber('maxCueDurationMs', Number(e.target.value) * 1000)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.speakerPrefixes}
+            onChange={(e) => onChange({ ...options, speakerPrefixes: e.target.checked })}
+          />
+          Speaker prefixes
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { CaptionOptions } from '../lib/captions';
+import type { ClipSuggestion } from '../lib/clips';
+import { downloadFile } from '../lib/download';
+import { SpeakerNames } from '../lib/speakers';
+import { formatTimestamp } from '../lib/transcript';
+import { Transcript } from '../lib/transcript-model';
+import { uploadFile } from '../lib/uploads/client';
+
+type FoundClip = ClipSuggestion & { ffmpeg_command: string; srt: string };
+
+interface ClipFinderProps {
+  transcript: Transcript;
+  speakerNames: SpeakerNames;
+  captionOptions: CaptionOptions;
+  // The source recording; clips can only be rendered on the server when it's available
+  media: File | null;
+}
+
+const clipName = (clip: FoundClip) => `clip-${clip.rank}-${Math.floor(clip.start / 1000)}s`;
+
+export default function ClipFinder({ transcript, speakerNames, captionOptions, media }: ClipFinderProps) {
+  const [clips, setClips] = useState<FoundClip[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [rendering, setRendering] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const findClips = async () => {
+    setSearching(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/clips', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          structured_transcript: transcript,
+          speakerNames,
+          captionOptions,
+          fileName: media?.name,
+          mimeType: media?.type,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to find clips');
+      }
+      setClips(result.clips);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const renderClip = async (clip: FoundClip) => {
+    if (!media) return;
+    setRendering(clip.rank);
+    setError('');
+
+    try {
+      // Resolves straight away when the file was already uploaded for the transcript
+      const uploadId = await uploadFile(media);
+      const response = await fetch('/api/clips/render', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ uploadId, start: clip.start, end: clip.end }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to render clip');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.headers.get('content-disposition')?.match(/filename="(.+)"/)?.[1] || clipName(clip);
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRendering(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Clip Finder
+        </h2>
+        <button
+          onClick={findClips}
+          disabled={searching}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium
+            py-2 px-4 rounded-md transition-colors text-sm disabled:cursor-not-allowed"
+        >
+          {searching ? 'Searching...' : clips.length > 0 ? 'Search again' : 'Find clips'}
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {clips.length === 0 && !error && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Suggests 30-90 second stretches that stand on their own and open strongly, cut on utterance boundaries.
+        </p>
+      )}
+
+      <ul className="space-y-4">
+        {clips.map(clip => (
+          <li key={clip.rank} className="text-sm">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">{clip.title}</p>
+                <p className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                  {formatTimestamp(clip.start)}–{formatTimestamp(clip.end)} · {Math.round((clip.end - clip.start) / 1000)}s
+                  {' · '}{clip.speakers.join(', ')} · score {clip.score}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => navigator.clipboard.writeText(clip.ffmpeg_command)}
+                  className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600
+                    text-gray-800 dark:text-gray-200 py-1 px-3 rounded-md transition-colors"
+                >
+                  Copy ffmpeg
+                </button>
+                <button
+                  onClick={() => downloadFile(clip.srt, `${clipName(clip)}.srt`, 'application/x-subrip')}
+                  className="bg-teal-600 hover:bg-teal-700 text-white py-1 px-3 rounded-md transition-colors"
+                >
+                  SRT
+                </button>
+                <button
+                  onClick={() => renderClip(clip)}
+                  disabled={!media || rendering !== null}
+                  className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white py-1 px-3
+                    rounded-md transition-colors disabled:cursor-not-allowed"
+                >
+                  {rendering === clip.rank ? 'Rendering...' : 'Render'}
+                </button>
+              </div>
+            </div>
+            <p className="mt-1 text-gray-700 dark:text-gray-300 line-clamp-3">{clip.text}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
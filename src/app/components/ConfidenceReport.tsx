@@ -0,0 +1,74 @@
+'use client';
+
+import { useMemo } from 'react';
+import { findUncertainSpans, lowestConfidencePassages } from '../lib/confidence';
+import { downloadFile } from '../lib/download';
+import { SpeakerNames } from '../lib/speakers';
+import { formatTimestamp } from '../lib/transcript';
+import { Transcript } from '../lib/transcript-model';
+
+interface ConfidenceReportProps {
+  transcript: Transcript;
+  speakerNames: SpeakerNames;
+  limit?: number;
+}
+
+export default function ConfidenceReport({ transcript, speakerNames, limit = 10 }: ConfidenceReportProps) {
+  const passages = useMemo(() => lowestConfidencePassages(transcript, limit), [transcript, limit]);
+  const spanCount = useMemo(() => findUncertainSpans(transcript).length, [transcript]);
+
+  // Transcripts from sources without confidence scores have nothing to report
+  if (passages.length === 0) return null;
+
+  const speakerLabel = (speaker: string) => speakerNames[speaker] || speaker;
+
+  const downloadReport = () => {
+    const lines = passages.map(passage =>
+      `- ${formatTimestamp(passage.start)} ${speakerLabel(passage.speaker)} (${Math.round(passage.confidence * 100)}%, ` +
+      `${passage.uncertainWords} uncertain words): ${passage.text}`
+    );
+    downloadFile(
+      `# Lowest-confidence passages\n\n${spanCount} uncertain spans in total.\n\n${lines.join('\n')}\n`,
+      'transcript-confidence-report.md',
+      'text/markdown'
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Lowest-Confidence Passages
+        </h2>
+        <button
+          onClick={downloadReport}
+          className="bg-green-600 hover:bg-green-700 text-white font-medium 
+            py-2 px-4 rounded-md transition-colors text-sm"
+        >
+          Download Report
+        </button>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+        {spanCount} uncertain spans found. These passages are the most likely to contain mis-heard words
+        and are pointed out to the enhancers.
+      </p>
+
+      <ul className="space-y-3">
+        {passages.map((passage, i) => (
+          <li key={i} className="text-sm">
+            <div className="flex gap-3 font-mono text-xs text-gray-500 dark:text-gray-400">
+              <span>{formatTimestamp(passage.start)}</span>
+              <span>{speakerLabel(passage.speaker)}</span>
+              <span className="text-orange-600 dark:text-orange-400">
+                {Math.round(passage.confidence * 100)}%
+              </span>
+              {passage.uncertainWords > 0 && <span>{passage.uncertainWords} uncertain words</span>}
+            </div>
+            <p className="text-gray-800 dark:text-gray-200 line-clamp-2">{passage.text}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
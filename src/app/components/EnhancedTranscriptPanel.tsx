@@ -0,0 +1,127 @@
+'use client';
+
+import { CaptionOptions } from '../lib/captions';
+import { downloadFile } from '../lib/download';
+import type { FaithfulnessSummary } from '../lib/enhancement/faithfulness';
+import type { ProviderId, ProviderInfo } from '../lib/enhancement/types';
+import { SpeakerNames } from '../lib/speakers';
+import { Transcript, renderMarkdown } from '../lib/transcript-model';
+import CaptionButtons from './CaptionButtons';
+
+export interface EnhancementView {
+  running: boolean;
+  completed: number;
+  total: number;
+  output: Transcript | null;
+  faithfulness?: FaithfulnessSummary;
+  // The prompt profile and revision the output was made with
+  prompt?: { profile: string; version: string };
+}
+
+export const EMPTY_ENHANCEMENT: EnhancementView = { running: false, completed: 0, total: 0, output: null };
+
+// Literal class names so Tailwind picks them up
+export const PROVIDER_STYLES: Record<ProviderId, { slug: string; button: string; bar: string }> = {
+  anthropic: { slug: 'claude', button: 'bg-purple-600 hover:bg-purple-700', bar: 'bg-purple-600' },
+  gemini: { slug: 'gemini', button: 'bg-blue-600 hover:bg-blue-700', bar: 'bg-blue-600' },
+  openai: { slug: 'openai', button: 'bg-emerald-600 hover:bg-emerald-700', bar: 'bg-emerald-600' },
+};
+
+interface EnhancedTranscriptPanelProps {
+  provider: ProviderInfo;
+  enhancement: EnhancementView;
+  captionOptions: CaptionOptions;
+  speakerNames: SpeakerNames;
+  onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+}
+
+export default function EnhancedTranscriptPanel({
+  provider,
+  enhancement,
+  captionOptions,
+  speakerNames,
+  onKeyDown,
+}: EnhancedTranscriptPanelProps) {
+  const { slug, bar } = PROVIDER_STYLES[provider.id];
+  const { running, completed, total, output, faithfulness, prompt } = enhancement;
+  const markdown = renderMarkdown(output, speakerNames);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          {provider.label} Enhanced Transcript{provider.supportsAudio ? ' (with Audio)' : ''}
+          {prompt && (
+            <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              {prompt.profile} prompt v{prompt.version}
+            </span>
+          )}
+        </h2>
+        {output && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(markdown, `transcript-${slug}-enhanced.md`, 'text/markdown')}
+              className="bg-green-600 hover:bg-green-700 text-white font-medium 
+                py-2 px-4 rounded-md transition-colors text-sm"
+            >
+              Download
+            </button>
+            <CaptionButtons
+              transcript={output}
+              options={captionOptions}
+              speakerNames={speakerNames}
+              filename={`transcript-${slug}-enhanced`}
+            />
+          </div>
+        )}
+      </div>
+      
+      {running && total > 0 && (
+        <div className="mb-4">
+          <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
+            <span>{provider.label} Enhancement Progress</span>
+            <span>{Math.round((completed / total) * 100)}%</span>
+          </div>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+            <div 
+              className={`${bar} h-2 rounded-full transition-all duration-300`}
+              style={{ width: `${(completed / total) * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+      
+      {faithfulness && faithfulness.fellBack.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
+          <p className="text-sm text-yellow-800 dark:text-yellow-300">
+            {faithfulness.fellBack.length} of {faithfulness.checked} chunks kept their original text because
+            the {provider.label} output changed too much (chunks {faithfulness.fellBack.map(index => index + 1).join(', ')}).
+          </p>
+          <ul className="mt-1 text-xs text-yellow-700 dark:text-yellow-400 list-disc ml-5">
+            {faithfulness.chunks
+              .filter(chunk => chunk.fellBack)
+              .map(chunk => (
+                <li key={chunk.index}>Chunk {chunk.index + 1}: {chunk.issues.join('; ')}</li>
+              ))}
+          </ul>
+        </div>
+      )}
+      
+      <textarea
+        value={markdown}
+        readOnly
+        onKeyDown={onKeyDown}
+        placeholder={running
+          ? `Enhancing transcript with ${provider.label}${provider.supportsAudio ? ' (including audio analysis)' : ''}...`
+          : `${provider.label} enhanced transcript will appear here`}
+        className="w-full h-96 p-4 border border-gray-300 dark:border-gray-600 
+          rounded-md resize-y font-mono text-sm
+          bg-white dark:bg-gray-900
+          text-gray-900 dark:text-gray-100
+          placeholder-gray-500 dark:placeholder-gray-400
+          focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+          dark:focus:ring-blue-400 dark:focus:border-blue-400"
+      />
+    </div>
+  );
+}
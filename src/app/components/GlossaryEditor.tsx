@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Glossary, formatGlossaryText, parseGlossary, parseGlossaryText } from '../lib/glossary';
+
+// Glossaries live in the browser for now, keyed by project name
+const GLOSSARIES_KEY = 'transcribe.glossaries';
+const ACTIVE_PROJECT_KEY = 'transcribe.activeProject';
+const DEFAULT_PROJECT = 'Default';
+
+type StoredGlossaries = Record<string, Glossary>;
+
+function loadGlossaries(): StoredGlossaries {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GLOSSARIES_KEY) || '{}');
+    return Object.fromEntries(Object.entries(stored).map(([project, glossary]) => [project, parseGlossary(glossary)]));
+  } catch {
+    return {};
+  }
+}
+
+export function readActiveProject(): string {
+  return localStorage.getItem(ACTIVE_PROJECT_KEY) || DEFAULT_PROJECT;
+}
+
+// The glossary the editor opens with, for pages to start from before it is edited
+export function readActiveGlossary(): Glossary {
+  return loadGlossaries()[readActiveProject()] || [];
+}
+
+interface GlossaryEditorProps {
+  // Called on edits only. Also reports the project, which other per-project settings are keyed by
+  onChange: (glossary: Glossary, project: string) => void;
+}
+
+export default function GlossaryEditor({ onChange }: GlossaryEditorProps) {
+  const [glossaries, setGlossaries] = useState<StoredGlossaries>({});
+  const [project, setProject] = useState(DEFAULT_PROJECT);
+  const [text, setText] = useState('');
+  const [newProject, setNewProject] = useState('');
+
+  useEffect(() => {
+    const stored = loadGlossaries();
+    const active = readActiveProject();
+    setGlossaries(stored);
+    setProject(active);
+    setText(formatGlossaryText(stored[active] || []));
+  }, []);
+
+  const save = (next: StoredGlossaries) => {
+    setGlossaries(next);
+    localStorage.setItem(GLOSSARIES_KEY, JSON.stringify(next));
+  };
+
+  const selectProject = (name: string) => {
+    setProject(name);
+    setText(formatGlossaryText(glossaries[name] || []));
+    localStorage.setItem(ACTIVE_PROJECT_KEY, name);
+    onChange(glossaries[name] || [], name);
+  };
+
+  const updateText = (value: string) => {
+    setText(value);
+    const glossary = parseGlossaryText(value);
+    save({ ...glossaries, [project]: glossary });
+    onChange(glossary, project);
+  };
+
+  const addProject = () => {
+    const name = newProject.trim();
+    if (!name) return;
+    if (!glossaries[name]) save({ ...glossaries, [name]: [] });
+    setNewProject('');
+    selectProject(name);
+  };
+
+  const projects = Array.from(new Set([DEFAULT_PROJECT, ...Object.keys(glossaries), project]));
+  const termCount = parseGlossaryText(text).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Glossary
+        </h2>
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={project}
+            onChange={(e) => selectProject(e.target.value)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+              bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+          >
+            {projects.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newProject}
+            onChange={(e) => setNewProject(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addProject()}
+            placeholder="New project"
+            className="w-32 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+              bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+          />
+          <button
+            onClick={addProject}
+            className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600
+              text-gray-800 dark:text-gray-200 py-1 px-3 rounded-md transition-colors"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+        One term per line, optionally followed by known wrong forms: <code>Dwarkesh: Dwar cash, Dwarkish</code>.
+        Terms are boosted in transcription, given to the enhancers, and wrong forms are replaced afterwards.
+      </p>
+
+      <textarea
+        value={text}
+        onChange={(e) => updateText(e.target.value)}
+        placeholder={'Dwarkesh: Dwar cash\nRLHF: our LHF\nChinchilla'}
+        className="w-full h-32 p-3 border border-gray-300 dark:border-gray-600
+          rounded-md resize-y font-mono text-sm
+          bg-white dark:bg-gray-900
+          text-gray-900 dark:text-gray-100
+          placeholder-gray-500 dark:placeholder-gray-400
+          focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{termCount} terms in {project}</p>
+    </div>
+  );
+}
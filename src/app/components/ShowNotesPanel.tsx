@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { downloadFile } from '../lib/download';
+import type { ProviderId, ProviderInfo } from '../lib/enhancement/types';
+import { ShowNotes, formatChapterTimestamp, formatShowNotesMarkdown } from '../lib/show-notes';
+import { SpeakerNames } from '../lib/speakers';
+import { Transcript } from '../lib/transcript-model';
+
+interface ShowNotesPanelProps {
+  transcript: Transcript;
+  speakerNames: SpeakerNames;
+  providers: ProviderInfo[];
+}
+
+export default function ShowNotesPanel({ transcript, speakerNames, providers }: ShowNotesPanelProps) {
+  const [providerId, setProviderId] = useState<ProviderId>(providers[0]?.id ?? 'anthropic');
+  const [notes, setNotes] = useState<ShowNotes | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  const generate = async () => {
+    setRunning(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/show-notes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ provider: providerId, structured_transcript: transcript, speakerNames }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to generate show notes');
+      }
+      setNotes(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Show Notes
+        </h2>
+        <div className="flex gap-2 text-sm">
+          {providers.length > 1 && (
+            <select
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value as ProviderId)}
+              disabled={running}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+                bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+            >
+              {providers.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={generate}
+            disabled={running}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium
+              py-2 px-4 rounded-md transition-colors disabled:cursor-not-allowed"
+          >
+            {running ? 'Generating...' : notes ? 'Regenerate' : 'Generate'}
+          </button>
+          {notes && (
+            <button
+              onClick={() => downloadFile(formatShowNotesMarkdown(notes), 'show-notes.md', 'text/markdown')}
+              className="bg-green-600 hover:bg-green-700 text-white font-medium
+                py-2 px-4 rounded-md transition-colors"
+            >
+              Download
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {!notes && !error && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Chapters, an episode summary, guest bio drafts and pull quotes. Every quote is checked against the transcript word for word.
+        </p>
+      )}
+
+      {notes && (
+        <div className="space-y-6 text-sm text-gray-800 dark:text-gray-200">
+          <section>
+            <h3 className="font-semibold mb-2">Chapters</h3>
+            <pre className="font-mono text-xs whitespace-pre-wrap">{notes.youtube_chapters}</pre>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="font-semibold">Summary</h3>
+            {notes.summary.map((paragraph, i) => <p key={i}>{paragraph}</p>)}
+          </section>
+
+          {notes.guests.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="font-semibold">Guests</h3>
+              {notes.guests.map(guest => (
+                <div key={guest.name}>
+                  <p className="font-medium">{guest.name}</p>
+                  <p>{guest.bio}</p>
+                  {guest.questions.length > 0 && (
+                    <ul className="mt-1 list-disc list-inside text-gray-600 dark:text-gray-400">
+                      {guest.questions.map((question, i) => <li key={i}>{question}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </section>
+          )}
+
+          <section>
+            <h3 className="font-semibold mb-2">Pull quotes</h3>
+            <ol className="space-y-2">
+              {notes.quotes.map(quote => (
+                <li key={quote.rank}>
+                  <span className="font-mono text-xs text-gray-500 dark:text-gray-400 mr-2">
+                    {formatChapterTimestamp(quote.start)} {quote.speaker}
+                  </span>
+                  &ldquo;{quote.text}&rdquo;
+                </li>
+              ))}
+            </ol>
+            {notes.rejected_quotes.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {notes.rejected_quotes.length} suggested quotes were left out: not found word for word in the transcript, or repeats.
+              </p>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
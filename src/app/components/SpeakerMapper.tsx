@@ -0,0 +1,74 @@
+'use client';
+
+import { useMemo } from 'react';
+import { SpeakerNames, detectSpeakers } from '../lib/speakers';
+
+interface SpeakerMapperProps {
+  transcript: string;
+  names: SpeakerNames;
+  onNamesChange: (names: SpeakerNames) => void;
+  defaultHostName: string;
+  onDefaultHostNameChange: (name: string) => void;
+}
+
+export default function SpeakerMapper({
+  transcript,
+  names,
+  onNamesChange,
+  defaultHostName,
+  onDefaultHostNameChange,
+}: SpeakerMapperProps) {
+  const speakers = useMemo(() => detectSpeakers(transcript), [transcript]);
+
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Speakers
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          Default host name
+          <input
+            type="text"
+            value={defaultHostName}
+            onChange={(e) => onDefaultHostNameChange(e.target.value)}
+            placeholder="e.g. Dwarkesh Patel"
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+              bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-6">
+        {speakers.map((speaker) => (
+          <div key={speaker.label}>
+            <div className="flex items-center gap-4 mb-2">
+              <span className="font-mono text-sm text-gray-700 dark:text-gray-300 w-32">
+                {speaker.label}
+              </span>
+              <input
+                type="text"
+                value={names[speaker.label] || ''}
+                onChange={(e) => onNamesChange({ ...names, [speaker.label]: e.target.value })}
+                placeholder="Speaker name"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm
+                  bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+                  focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {speaker.turns} turns, first at {speaker.firstTimestamp}
+              </span>
+            </div>
+            <ul className="ml-36 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+              {speaker.samples.map((sample, i) => (
+                <li key={i} className="truncate">&ldquo;{sample}&rdquo;</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+export interface TrackInput {
+  file: File | null;
+  speaker: string;
+}
+
+interface TrackListProps {
+  tracks: TrackInput[];
+  onChange: (tracks: TrackInput[]) => void;
+  disabled?: boolean;
+}
+
+// One row per speaker's recording; every utterance on a track is attributed to its name
+export default function TrackList({ tracks, onChange, disabled }: TrackListProps) {
+  const updateTrack = (index: number, update: Partial<TrackInput>) => {
+    onChange(tracks.map((track, i) => i === index ? { ...track, ...update } : track));
+  };
+
+  return (
+    <div className="space-y-3">
+      {tracks.map((track, index) => (
+        <div key={index} className="flex items-center gap-3">
+          <input
+            type="text"
+            value={track.speaker}
+            onChange={(e) => updateTrack(index, { speaker: e.target.value })}
+            placeholder={`Speaker ${index + 1}`}
+            disabled={disabled}
+            className="w-40 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm
+              bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+          />
+          <input
+            type="file"
+            accept="audio/*,video/*"
+            onChange={(e) => updateTrack(index, { file: e.target.files?.[0] ?? null })}
+            disabled={disabled}
+            className="flex-1 text-sm text-gray-500 dark:text-gray-400
+              file:mr-4 file:py-1 file:px-3
+              file:rounded-md file:border-0
+              file:text-sm file:font-medium
+              file:bg-blue-50 file:text-blue-700
+              dark:file:bg-blue-900/20 dark:file:text-blue-400
+              hover:file:bg-blue-100 dark:hover:file:bg-blue-900/30
+              file:cursor-pointer cursor-pointer"
+          />
+          {tracks.length > 1 && (
+            <button
+              onClick={() => onChange(tracks.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="text-sm text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...tracks, { file: null, speaker: '' }])}
+        disabled={disabled}
+        className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600
+          text-gray-800 dark:text-gray-200 py-1 px-3 rounded-md transition-colors text-sm"
+      >
+        Add track
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { CaptionOptions, CaptionWord } from '../lib/captions';
+import { ChangeDecisions, ChangeKind, DiffChange, PARAGRAPH_BREAK, assembleMarkdown, diffTranscripts } from '../lib/diff';
+import { downloadFile } from '../lib/download';
+import { SpeakerNames } from '../lib/speakers';
+import { Transcript, fromMarkdown } from '../lib/transcript-model';
+import CaptionButtons from './CaptionButtons';
+
+export interface DiffSource {
+  id: string;
+  label: string;
+  transcript: Transcript;
+}
+
+interface TranscriptDiffProps {
+  sources: DiffSource[];
+  speakerNames: SpeakerNames;
+  captionOptions: CaptionOptions;
+  // Timings from the original transcript, aligned onto the assembled result for captions
+  captionWords: CaptionWord[];
+}
+
+const KIND_STYLES: Record<ChangeKind, { removed: string; added: string }> = {
+  filler: { removed: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300', added: '' },
+  delete: { removed: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300', added: '' },
+  insert: { removed: '', added: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300' },
+  replace: {
+    removed: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300',
+    added: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  },
+  punctuation: { removed: 'text-gray-400 dark:text-gray-500', added: 'text-gray-700 dark:text-gray-300' },
+  paragraph: { removed: 'text-blue-500', added: 'text-blue-500' },
+};
+
+const showTokens = (tokens: string[]) => tokens.map(token => (token === PARAGRAPH_BREAK ? '¶' : token)).join(' ');
+
+function ChangeView({
+  change,
+  accepted,
+  onToggle,
+}: {
+  change: DiffChange;
+  accepted: boolean;
+  onToggle: () => void;
+}) {
+  const style = KIND_STYLES[change.kind];
+
+  return (
+    <span
+      onClick={onToggle}
+      title={`${change.kind} — click to ${accepted ? 'reject' : 'accept'}`}
+      className={`cursor-pointer rounded px-0.5 ring-1 ${accepted ? 'ring-green-400' : 'ring-red-400'}`}
+    >
+      {change.removed.length > 0 && (
+        <span className={`${style.removed} ${accepted ? 'line-through' : ''}`}>{showTokens(change.removed)}</span>
+      )}
+      {change.removed.length > 0 && change.added.length > 0 && ' '}
+      {change.added.length > 0 && (
+        <span className={`${style.added} ${accepted ? '' : 'line-through opacity-50'}`}>{showTokens(change.added)}</span>
+      )}
+    </span>
+  );
+}
+
+export default function TranscriptDiff({ sources, speakerNames, captionOptions, captionWords }: TranscriptDiffProps) {
+  const [leftId, setLeftId] = useState(sources[0]?.id || '');
+  const [rightId, setRightId] = useState(sources[1]?.id || '');
+  const [decisions, setDecisions] = useState<ChangeDecisions>({});
+  const [currentTurn, setCurrentTurn] = useState(-1);
+  const turnRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const left = sources.find(source => source.id === leftId) || sources[0];
+  const right = sources.find(source => source.id === rightId) || sources[1];
+
+  const leftTranscript = left?.transcript;
+  const rightTranscript = right?.transcript;
+
+  const diff = useMemo(
+    () => (leftTranscript && rightTranscript ? diffTranscripts(leftTranscript, rightTranscript) : null),
+    [leftTranscript, rightTranscript]
+  );
+
+  const assembled = useMemo(
+    () => (diff ? fromMarkdown(assembleMarkdown(diff, decisions), captionWords) : null),
+    [diff, decisions, captionWords]
+  );
+
+  if (!diff || !left || !right) return null;
+
+  const changedTurns = diff.turns.flatMap((turn, i) => (turn.changeCount > 0 ? [i] : []));
+  const acceptedCount = diff.changes.filter(change => decisions[change.id] ?? true).length;
+
+  const selectPair = (nextLeft: string, nextRight: string) => {
+    setLeftId(nextLeft);
+    setRightId(nextRight);
+    setDecisions({});
+    setCurrentTurn(-1);
+  };
+
+  const setAll = (accepted: boolean, turn?: number) => {
+    setDecisions(prev => ({
+      ...prev,
+      ...Object.fromEntries(
+        diff.changes
+          .filter(change => turn === undefined || change.turn === turn)
+          .map(change => [change.id, accepted])
+      ),
+    }));
+  };
+
+  const goToTurn = (direction: 1 | -1) => {
+    const next = direction === 1
+      ? changedTurns.find(turn => turn > currentTurn)
+      : [...changedTurns].reverse().find(turn => turn < currentTurn);
+    if (next === undefined) return;
+    setCurrentTurn(next);
+    turnRefs.current[next]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const selectClass = `px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm
+    bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100`;
+  const buttonClass = `bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600
+    text-gray-800 dark:text-gray-200 py-1 px-3 rounded-md transition-colors text-sm disabled:opacity-50`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Compare Transcripts
+        </h2>
+        {assembled && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(assembleMarkdown(diff, decisions), 'transcript-reviewed.md', 'text/markdown')}
+              className="bg-green-600 hover:bg-green-700 text-white font-medium
+                py-2 px-4 rounded-md transition-colors text-sm"
+            >
+              Download Reviewed
+            </button>
+            <CaptionButtons
+              transcript={assembled}
+              options={captionOptions}
+              speakerNames={speakerNames}
+              filename="transcript-reviewed"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-600 dark:text-gray-400">
+        <select value={left.id} onChange={(e) => selectPair(e.target.value, right.id)} className={selectClass}>
+          {sources.map(source => (
+            <option key={source.id} value={source.id}>{source.label}</option>
+          ))}
+        </select>
+        <span>against</span>
+        <select value={right.id} onChange={(e) => selectPair(left.id, e.target.value)} className={selectClass}>
+          {sources.map(source => (
+            <option key={source.id} value={source.id}>{source.label}</option>
+          ))}
+        </select>
+        <span className="ml-auto">
+          {acceptedCount}/{diff.changes.length} changes accepted, {changedTurns.length} turns changed
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button onClick={() => goToTurn(-1)} disabled={!changedTurns.some(turn => turn < currentTurn)} className={buttonClass}>
+          Previous turn
+        </button>
+        <button onClick={() => goToTurn(1)} disabled={!changedTurns.some(turn => turn > currentTurn)} className={buttonClass}>
+          Next turn
+        </button>
+        <button onClick={() => setAll(true)} className={buttonClass}>Accept all</button>
+        <button onClick={() => setAll(false)} className={buttonClass}>Reject all</button>
+        <span className="text-xs text-gray-500 dark:text-gray-400 self-center">
+          Click a change to toggle it. Yellow: filler removed, red: deleted, green: added, ¶: paragraph break.
+        </span>
+      </div>
+
+      <div className="h-96 overflow-y-auto p-4 border border-gray-300 dark:border-gray-600 rounded-md
+        bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-gray-100 space-y-4">
+        {diff.turns.map((turn, i) => (
+          <div
+            key={i}
+            ref={(element) => { turnRefs.current[i] = element; }}
+            className={i === currentTurn ? 'ring-2 ring-blue-400 rounded-md p-2 -m-2' : ''}
+          >
+            <div className="flex items-center gap-3 mb-1 font-mono text-xs text-gray-500 dark:text-gray-400">
+              <span>{speakerNames[turn.speaker] || turn.speaker} {turn.timestamp}</span>
+              {turn.changeCount > 0 && (
+                <>
+                  <button onClick={() => setAll(true, i)} className="hover:underline">accept turn</button>
+                  <button onClick={() => setAll(false, i)} className="hover:underline">reject turn</button>
+                </>
+              )}
+            </div>
+            <p className="leading-relaxed">
+              {turn.pieces.map((piece, j) => (
+                <span key={j}>
+                  {piece.type === 'equal'
+                    ? showTokens(piece.tokens)
+                    : (
+                      <ChangeView
+                        change={piece.change}
+                        accepted={decisions[piece.change.id] ?? true}
+                        onToggle={() => setDecisions(prev => ({
+                          ...prev,
+                          [piece.change.id]: !(prev[piece.change.id] ?? true),
+                        }))}
+                      />
+                    )}{' '}
+                </span>
+              ))}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { isLowConfidence, paragraphConfidence } from '../lib/confidence';
+import { SpeakerNames } from '../lib/speakers';
+import { formatTimestamp } from '../lib/transcript';
+import { Transcript, editParagraph } from '../lib/transcript-model';
+
+const SKIP_BACK_SECONDS = 5;
+
+interface TranscriptEditorProps {
+  transcript: Transcript;
+  onChange: (transcript: Transcript) => void;
+  // The uploaded audio or video; without it the editor still edits, it just can't play
+  media: File | null;
+  speakerNames: SpeakerNames;
+  // Shown beside the title, e.g. a picker for which transcript to proofread
+  controls?: React.ReactNode;
+}
+
+type ParagraphKey = `${number}:${number}`;
+
+const confidenceTitle = (confidence?: number) =>
+  confidence !== undefined ? `${Math.round(confidence * 100)}% confidence` : undefined;
+
+export default function TranscriptEditor({ transcript, onChange, media, speakerNames, controls }: TranscriptEditorProps) {
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [editing, setEditing] = useState<ParagraphKey | null>(null);
+  const [draft, setDraft] = useState('');
+  const playerRef = useRef<HTMLMediaElement | null>(null);
+  const paragraphRefs = useRef(new Map<ParagraphKey, HTMLElement>());
+  // Escape unmounts the textarea, which can still fire a blur; this keeps that blur from saving
+  const cancelEdit = useRef(false);
+
+  useEffect(() => {
+    if (!media) {
+      setMediaUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(media);
+    setMediaUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [media]);
+
+  const lowConfidenceStarts = useMemo(
+    () => transcript.segments
+      .flatMap(segment => segment.paragraphs.flatMap(paragraph => paragraph.words || []))
+      .filter(word => isLowConfidence(word))
+      .map(word => word.start),
+    [transcript]
+  );
+
+  const currentMs = currentTime * 1000;
+
+  const seek = useCallback((ms: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.currentTime = ms / 1000;
+    setCurrentTime(ms / 1000);
+  }, []);
+
+  const togglePlayback = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (player.paused) void player.play();
+    else player.pause();
+  }, []);
+
+  const jumpToNextLowConfidence = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    const now = player.currentTime * 1000;
+    const next = lowConfidenceStarts.find(start => start > now + 50);
+    if (next !== undefined) seek(next);
+  }, [lowConfidenceStarts, seek]);
+
+  // Alt-based shortcuts work while a paragraph is being edited, too
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey || e.ctrlKey || e.metaKey) return;
+      const player = playerRef.current;
+
+      if (e.code === 'KeyK') {
+        togglePlayback();
+      } else if (e.code === 'KeyJ' && player) {
+        seek(Math.max(0, player.currentTime - SKIP_BACK_SECONDS) * 1000);
+      } else if (e.code === 'KeyN') {
+        jumpToNextLowConfidence();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [togglePlayback, jumpToNextLowConfidence, seek]);
+
+  // The playing paragraph is the last one that has started
+  let playing: ParagraphKey | null = null;
+  transcript.segments.forEach((segment, i) => {
+    segment.paragraphs.forEach((paragraph, j) => {
+      if (paragraph.start <= currentMs) playing = `${i}:${j}`;
+    });
+  });
+
+  useEffect(() => {
+    if (playing && playing !== editing) {
+      paragraphRefs.current.get(playing)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [playing, editing]);
+
+  const startEditing = (key: ParagraphKey, text: string) => {
+    cancelEdit.current = false;
+    setEditing(key);
+    setDraft(text);
+  };
+
+  const commitEdit = () => {
+    if (!editing || cancelEdit.current) return;
+    const [segmentIndex, paragraphIndex] = editing.split(':').map(Number);
+    const paragraph = transcript.segments[segmentIndex]?.paragraphs[paragraphIndex];
+    if (paragraph && paragraph.text !== draft) {
+      onChange(editParagraph(transcript, segmentIndex, paragraphIndex, draft));
+    }
+    setEditing(null);
+  };
+
+  const MediaElement = media?.type.startsWith('video/') ? 'video' : 'audio';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Proofread
+        </h2>
+        {controls}
+      </div>
+
+      <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+        Click a header, paragraph or word to seek; double-click a paragraph to edit it.
+        Alt+K play/pause · Alt+J back {SKIP_BACK_SECONDS}s · Alt+N next low-confidence word
+      </p>
+
+      {mediaUrl ? (
+        <MediaElement
+          ref={(element: HTMLMediaElement | null) => { playerRef.current = element; }}
+          src={mediaUrl}
+          controls
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          className={MediaElement === 'video' ? 'w-full max-h-72 mb-4 rounded-md bg-black' : 'w-full mb-4'}
+        />
+      ) : (
+        <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+          Select the audio or video file above to play it alongside the transcript.
+        </p>
+      )}
+
+      <div className="h-96 overflow-y-auto p-4 border border-gray-300 dark:border-gray-600 rounded-md
+        bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-gray-100 space-y-4">
+        {transcript.segments.map((segment, i) => (
+          <div key={i}>
+            <button
+              onClick={() => seek(segment.start)}
+              className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline mb-1"
+            >
+              {speakerNames[segment.speaker] || segment.speaker} {formatTimestamp(segment.start)}
+            </button>
+            {segment.paragraphs.map((paragraph, j) => {
+              const key: ParagraphKey = `${i}:${j}`;
+
+              if (editing === key) {
+                return (
+                  <textarea
+                    key={j}
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onBlur={commitEdit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') {
+                        cancelEdit.current = true;
+                        setEditing(null);
+                      } else if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        commitEdit();
+                      }
+                    }}
+                    className="w-full p-2 mb-2 border border-blue-400 rounded-md resize-y
+                      bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                    rows={Math.max(2, Math.ceil(draft.length / 90))}
+                  />
+                );
+              }
+
+              return (
+                <p
+                  key={j}
+                  ref={(element) => {
+                    if (element) paragraphRefs.current.set(key, element);
+                    else paragraphRefs.current.delete(key);
+                  }}
+                  onClick={() => seek(paragraph.start)}
+                  onDoubleClick={() => startEditing(key, paragraph.text)}
+                  title={confidenceTitle(paragraphConfidence(paragraph))}
+                  className={`mb-2 leading-relaxed cursor-pointer rounded px-1 -mx-1
+                    ${playing === key ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                >
+                  {paragraph.words?.length
+                    ? paragraph.words.map((word, k) => {
+                        const low = isLowConfidence(word);
+                        const active = playing === key && word.start <= currentMs && currentMs < word.end;
+                        return (
+                          <span
+                            key={k}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              seek(word.start);
+                            }}
+                            title={confidenceTitle(word.confidence)}
+                            className={`${low ? 'bg-orange-100 dark:bg-orange-900/40 underline decoration-orange-400 decoration-2' : ''}
+                              ${active ? 'bg-yellow-200 dark:bg-yellow-700' : ''}`}
+                          >
+                            {word.text}{' '}
+                          </span>
+                        );
+                      })
+                    : paragraph.text}
+                </p>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
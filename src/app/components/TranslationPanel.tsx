@@ -0,0 +1,227 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { CaptionOptions } from '../lib/captions';
+import { downloadFile } from '../lib/download';
+import type { ProviderId, ProviderInfo } from '../lib/enhancement/types';
+import type { Glossary } from '../lib/glossary';
+import { SpeakerNames } from '../lib/speakers';
+import { formatTimestamp } from '../lib/transcript';
+import { Transcript, renderMarkdown } from '../lib/transcript-model';
+import type { TranslationResult } from '../lib/translation';
+import CaptionButtons from './CaptionButtons';
+import type { DiffSource } from './TranscriptDiff';
+
+const LANGUAGE_KEY = 'transcribe.translationLanguage';
+const OTHER_LANGUAGE = 'other';
+const LANGUAGES = [
+  'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Brazilian Portuguese', 'Dutch', 'Polish',
+  'Russian', 'Ukrainian', 'Turkish', 'Arabic', 'Hindi', 'Japanese', 'Korean', 'Simplified Chinese', 'Indonesian',
+];
+
+interface TranslationPanelProps {
+  // Finished transcripts to translate from, original first
+  sources: DiffSource[];
+  speakerNames: SpeakerNames;
+  captionOptions: CaptionOptions;
+  providers: ProviderInfo[];
+  // Glossary terms are always kept untranslated, on top of the ones typed here
+  glossary: Glossary;
+}
+
+const slugify = (language: string) => language.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export default function TranslationPanel({ sources, speakerNames, captionOptions, providers, glossary }: TranslationPanelProps) {
+  // The latest enhanced transcript is the usual thing to translate
+  const [sourceId, setSourceId] = useState<string | null>(null);
+  const [language, setLanguage] = useState(LANGUAGES[0]);
+  const [customLanguage, setCustomLanguage] = useState('');
+  const [keepText, setKeepText] = useState('');
+  const [providerId, setProviderId] = useState<ProviderId>(providers[0]?.id ?? 'anthropic');
+  // The transcript that was translated, kept alongside so the two columns stay paired
+  const [translation, setTranslation] = useState<{ source: Transcript; result: TranslationResult } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const saved = localStorage.getItem(LANGUAGE_KEY);
+    if (!saved) return;
+    if (LANGUAGES.includes(saved)) {
+      setLanguage(saved);
+    } else {
+      setLanguage(OTHER_LANGUAGE);
+      setCustomLanguage(saved);
+    }
+  }, []);
+
+  const source = sources.find(item => item.id === sourceId) || sources[sources.length - 1];
+  const targetLanguage = language === OTHER_LANGUAGE ? customLanguage.trim() : language;
+
+  const translate = async () => {
+    if (!source || !targetLanguage) return;
+    setRunning(true);
+    setError('');
+    localStorage.setItem(LANGUAGE_KEY, targetLanguage);
+
+    try {
+      const response = await fetch('/api/translate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider: providerId,
+          structured_transcript: source.transcript,
+          language: targetLanguage,
+          keep: [...glossary.map(entry => entry.term), ...keepText.split('\n')],
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to translate transcript');
+      }
+      setTranslation({ source: source.transcript, result });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const result = translation?.result;
+  const filename = result ? `transcript-${slugify(result.language)}` : '';
+  const selectClassName = `px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+    bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Translation
+        </h2>
+        {result && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(renderMarkdown(result.structured_transcript, speakerNames), `${filename}.md`, 'text/markdown')}
+              className="bg-green-600 hover:bg-green-700 text-white font-medium
+                py-2 px-4 rounded-md transition-colors text-sm"
+            >
+              Download
+            </button>
+            <CaptionButtons
+              transcript={result.structured_transcript}
+              options={captionOptions}
+              speakerNames={speakerNames}
+              filename={filename}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        {sources.length > 1 && (
+          <select
+            value={source?.id}
+            onChange={(e) => setSourceId(e.target.value)}
+            disabled={running}
+            className={selectClassName}
+          >
+            {sources.map(item => (
+              <option key={item.id} value={item.id}>{item.label}</option>
+            ))}
+          </select>
+        )}
+        <span className="text-gray-700 dark:text-gray-300">into</span>
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          disabled={running}
+          className={selectClassName}
+        >
+          {LANGUAGES.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+          <option value={OTHER_LANGUAGE}>Other...</option>
+        </select>
+        {language === OTHER_LANGUAGE && (
+          <input
+            type="text"
+            value={customLanguage}
+            onChange={(e) => setCustomLanguage(e.target.value)}
+            placeholder="Language"
+            maxLength={40}
+            className={`${selectClassName} w-40`}
+          />
+        )}
+        {providers.length > 1 && (
+          <select
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value as ProviderId)}
+            disabled={running}
+            className={selectClassName}
+          >
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={translate}
+          disabled={running || !source || !targetLanguage}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium
+            py-2 px-4 rounded-md transition-colors disabled:cursor-not-allowed"
+        >
+          {running ? 'Translating...' : 'Translate'}
+        </button>
+      </div>
+
+      <textarea
+        value={keepText}
+        onChange={(e) => setKeepText(e.target.value)}
+        placeholder={`Terms to keep untranslated, one per line${glossary.length > 0 ? ' (glossary terms are always kept)' : ''}`}
+        rows={2}
+        className="w-full mb-4 p-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm
+          bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100
+          placeholder-gray-500 dark:placeholder-gray-400"
+      />
+
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {result && (result.untranslated_chunks.length > 0 || result.missing_terms.length > 0) && (
+        <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md
+          text-sm text-yellow-800 dark:text-yellow-300">
+          {result.untranslated_chunks.length > 0 && (
+            <p>
+              {result.untranslated_chunks.length} of {result.chunks_processed} chunks were left untranslated because
+              the translation didn&apos;t line up with the original (chunks {result.untranslated_chunks.map(index => index + 1).join(', ')}).
+            </p>
+          )}
+          {result.missing_terms.length > 0 && (
+            <p>
+              Translated or dropped: {result.missing_terms.map(({ start, term }) => `${term} (${formatTimestamp(start)})`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {translation && result && (
+        <div className="grid grid-cols-2 gap-x-6 gap-y-3 max-h-[32rem] overflow-y-auto text-sm text-gray-800 dark:text-gray-200">
+          <h3 className="font-semibold sticky top-0 bg-white dark:bg-gray-800">Original</h3>
+          <h3 className="font-semibold sticky top-0 bg-white dark:bg-gray-800">{result.language}</h3>
+          {translation.source.segments.map((segment, i) => segment.paragraphs.map((paragraph, j) => (
+            <Fragment key={`${i}:${j}`}>
+              {j === 0 && (
+                <p className="col-span-2 mt-2 font-mono text-xs text-gray-500 dark:text-gray-400">
+                  {speakerNames[segment.speaker] || segment.speaker} {formatTimestamp(segment.start)}
+                </p>
+              )}
+              <p>{paragraph.text}</p>
+              <p>{result.structured_transcript.segments[i]?.paragraphs[j]?.text}</p>
+            </Fragment>
+          )))}
+        </div>
+      )}
+    </div>
+  );
+}
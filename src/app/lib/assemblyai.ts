@@ -0,0 +1,131 @@
+import { Glossary, toCustomSpelling, toWordBoost } from './glossary';
+import { Transcript, fromUtterances } from './transcript-model';
+
+export interface AssemblyAIWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+  speaker?: string | null;
+}
+
+export interface AssemblyAIResponse {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'error';
+  text: string;
+  utterances?: Array<{
+    confidence: number;
+    start: number;
+    end: number;
+    text: string;
+    speaker: string;
+    words?: AssemblyAIWord[];
+  }>;
+  // Word-level timings, returned alongside utterances; used for captions
+  words?: AssemblyAIWord[];
+  error?: string;
+}
+
+export interface WebhookOptions {
+  url: string;
+  secret: string;
+}
+
+// Overridable so a local stub server can stand in for AssemblyAI
+const ASSEMBLY_AI_API_URL = `${process.env.ASSEMBLY_AI_BASE_URL || 'https://api.assemblyai.com'}/v2`;
+
+export const WEBHOOK_SECRET_HEADER = 'x-assemblyai-webhook-secret';
+
+export function formatSpeakerLabel(speaker: string): string {
+  return speaker.replace('speaker_', 'Speaker ').toUpperCase();
+}
+
+export function toTranscript(result: Pick<AssemblyAIResponse, 'utterances' | 'words'>): Transcript {
+  return fromUtterances((result.utterances || []).map(utterance => {
+    // Utterances normally carry their own words; fall back to the top-level list
+    const words = utterance.words
+      || (result.words || []).filter(word => word.start >= utterance.start && word.end <= utterance.end);
+
+    return {
+      speaker: formatSpeakerLabel(utterance.speaker),
+      start: utterance.start,
+      end: utterance.end,
+      text: utterance.text,
+      confidence: utterance.confidence,
+      words: words.map(({ text, start, end, confidence }) => ({ text, start, end, confidence })),
+    };
+  }));
+}
+
+export async function uploadAudio(apiKey: string, body: Blob): Promise<string> {
+  const uploadResponse = await fetch(`${ASSEMBLY_AI_API_URL}/upload`, {
+    method: 'POST',
+    headers: {
+      'authorization': apiKey,
+    },
+    body,
+  });
+
+  if (!uploadResponse.ok) {
+    throw new Error(`Upload failed: ${uploadResponse.status}`);
+  }
+
+  const { upload_url } = await uploadResponse.json();
+  return upload_url;
+}
+
+export async function requestTranscript(
+  apiKey: string,
+  audioUrl: string,
+  webhook?: WebhookOptions,
+  glossary: Glossary = []
+): Promise<string> {
+  const wordBoost = toWordBoost(glossary);
+  const customSpelling = toCustomSpelling(glossary);
+
+  const transcriptResponse = await fetch(`${ASSEMBLY_AI_API_URL}/transcript`, {
+    method: 'POST',
+    headers: {
+      'authorization': apiKey,
+      'content-type': 'application/json',
+    },
+    body: JSON.stringify({
+      audio_url: audioUrl,
+      speaker_labels: true,
+      auto_highlights: false,
+      disfluencies: false,
+      filter_profanity: false,
+      format_text: true,
+      punctuate: true,
+      speech_models: ['slam-1'],
+      ...(wordBoost.length > 0 && { word_boost: wordBoost }),
+      ...(customSpelling.length > 0 && { custom_spelling: customSpelling }),
+      ...(webhook && {
+        webhook_url: webhook.url,
+        webhook_auth_header_name: WEBHOOK_SECRET_HEADER,
+        webhook_auth_header_value: webhook.secret,
+      }),
+    }),
+  });
+
+  if (!transcriptResponse.ok) {
+    throw new Error(`Transcription request failed: ${transcriptResponse.status}`);
+  }
+
+  const { id } = await transcriptResponse.json();
+  return id;
+}
+
+export async function fetchTranscript(apiKey: string, id: string): Promise<AssemblyAIResponse> {
+  const pollResponse = await fetch(`${ASSEMBLY_AI_API_URL}/transcript/${id}`, {
+    headers: {
+      'authorization': apiKey,
+    },
+  });
+
+  if (!pollResponse.ok) {
+    throw new Error(`Polling failed: ${pollResponse.status}`);
+  }
+
+  return pollResponse.json();
+}
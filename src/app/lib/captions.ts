@@ -0,0 +1,175 @@
+import { SpeakerNames, normalizeSpeakerName } from './speakers';
+import { parseMarkdownTranscript, parseTimestamp } from './transcript';
+
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+  // Speaker label as it appears in the Markdown headers, e.g. "A"
+  speaker?: string;
+}
+
+export interface CaptionOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCueDurationMs: number;
+  speakerPrefixes: boolean;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  maxCueDurationMs: 6000,
+  speakerPrefixes: false,
+};
+
+// A pause this long starts a new cue even if the current one has room
+const CUE_BREAK_PAUSE_MS = 1500;
+
+// How far ahead of the last matched source word to look for an enhanced word
+const ALIGNMENT_LOOKAHEAD = 40;
+
+export function buildCaptionCues(
+  words: CaptionWord[],
+  options: CaptionOptions = DEFAULT_CAPTION_OPTIONS,
+  speakerNames: SpeakerNames = {}
+): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let current: CaptionCue | null = null;
+  let currentSpeaker: string | undefined;
+  let previousEnd = 0;
+
+  const speakerPrefix = (speaker: string | undefined) => {
+    if (!options.speakerPrefixes || !speaker) return '';
+    return `${normalizeSpeakerName(speakerNames[speaker] || '') || speaker}: `;
+  };
+
+  for (const word of words) {
+    const speakerChanged = word.speaker !== currentSpeaker;
+    const startsCue = !current
+      || speakerChanged
+      || word.end - current.start > options.maxCueDurationMs
+      || word.start - previousEnd > CUE_BREAK_PAUSE_MS;
+
+    if (startsCue) {
+      current = {
+        start: word.start,
+        end: word.end,
+        lines: [speakerChanged ? `${speakerPrefix(word.speaker)}${word.text}` : word.text],
+      };
+      cues.push(current);
+      currentSpeaker = word.speaker;
+      previousEnd = word.end;
+      continue;
+    }
+
+    let cue = current!;
+    const lastLine = cue.lines[cue.lines.length - 1];
+
+    if (lastLine.length + 1 + word.text.length <= options.maxCharsPerLine) {
+      cue.lines[cue.lines.length - 1] = `${lastLine} ${word.text}`;
+    } else if (cue.lines.length < options.maxLinesPerCue) {
+      cue.lines.push(word.text);
+    } else {
+      cue = { start: word.start, end: word.end, lines: [word.text] };
+      cues.push(cue);
+      current = cue;
+    }
+
+    cue.end = word.end;
+    previousEnd = word.end;
+  }
+
+  return cues;
+}
+
+function formatCueTime(milliseconds: number, separator: ',' | '.'): string {
+  const ms = Math.max(0, Math.round(milliseconds));
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}${separator}${millis.toString().padStart(3, '0')}`;
+}
+
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.lines.join('\n')}`)
+    .join('\n\n') + '\n';
+}
+
+export function toVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.lines.join('\n')}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+// Enhanced transcripts have no word timings of their own. Borrow them from the
+// source words by matching each enhanced word to the next equal source word,
+// then interpolate words that were changed or added by the enhancer.
+export function alignWordsToTranscript(markdown: string, sourceWords: CaptionWord[]): CaptionWord[] {
+  const aligned: CaptionWord[] = [];
+  const matched: boolean[] = [];
+  const normalizedSource = sourceWords.map(word => normalizeWord(word.text));
+  let cursor = 0;
+
+  for (const segment of parseMarkdownTranscript(markdown)) {
+    // Never align a turn to words spoken well before its header timestamp
+    const segmentStart = parseTimestamp(segment.timestamp) - 1000;
+    while (cursor < sourceWords.length && sourceWords[cursor].start < segmentStart) {
+      cursor++;
+    }
+
+    for (const text of segment.text.split(/\s+/).filter(Boolean)) {
+      const normalized = normalizeWord(text);
+      let match = -1;
+
+      for (let i = cursor; i < Math.min(sourceWords.length, cursor + ALIGNMENT_LOOKAHEAD); i++) {
+        if (normalized && normalizedSource[i] === normalized) {
+          match = i;
+          break;
+        }
+      }
+
+      if (match >= 0) {
+        aligned.push({ text, start: sourceWords[match].start, end: sourceWords[match].end, speaker: segment.speaker });
+        matched.push(true);
+        cursor = match + 1;
+      } else {
+        aligned.push({ text, start: 0, end: 0, speaker: segment.speaker });
+        matched.push(false);
+      }
+    }
+  }
+
+  // Spread unmatched runs evenly between the matched words around them
+  for (let i = 0; i < aligned.length; i++) {
+    if (matched[i]) continue;
+
+    let runEnd = i;
+    while (runEnd < aligned.length && !matched[runEnd]) runEnd++;
+
+    const from = i > 0 ? aligned[i - 1].end : aligned[runEnd]?.start ?? 0;
+    const to = runEnd < aligned.length ? aligned[runEnd].start : from + (runEnd - i) * 300;
+    const step = Math.max(0, to - from) / (runEnd - i);
+
+    for (let j = i; j < runEnd; j++) {
+      aligned[j].start = from + step * (j - i);
+      aligned[j].end = from + step * (j - i + 1);
+    }
+    i = runEnd - 1;
+  }
+
+  return aligned;
+}
@@ -0,0 +1,196 @@
+import { CaptionOptions, CaptionWord, DEFAULT_CAPTION_OPTIONS, buildCaptionCues, toSrt } from './captions';
+import { SpeakerNames } from './speakers';
+import { Transcript } from './transcript-model';
+
+export const DEFAULT_CLIP_COUNT = 5;
+export const DEFAULT_MIN_CLIP_MS = 30_000;
+export const DEFAULT_MAX_CLIP_MS = 90_000;
+// Short-form platforms reward clips near a minute; longer ones only if they score well
+const IDEAL_CLIP_MS = 50_000;
+const TITLE_MAX_CHARS = 60;
+// How much of a clip's opening counts as its hook
+const HOOK_SENTENCES = 2;
+
+// A clip opening on one of these leans on something said before it
+const DANGLING_OPENING = /^(and|but|so|or|because|which|then|also|plus|it|it's|this|that|that's|he|she|they|those|these|there)\b/i;
+const FILLER_OPENING = /^((so|and|well|yeah|right|okay|ok|i mean|you know|like|um|uh)[,.]?\s+)+/i;
+const STRONG_WORDS = /\b(never|always|most|biggest|worst|best|secret|mistake|wrong|crazy|surprising|actually|truth|nobody|everyone|everybody|why|how|problem|future|million|billion)\b/gi;
+const SENTENCE_END = /[.!?]["')\]]?$/;
+
+export interface ClipOptions {
+  count?: number;
+  minMs?: number;
+  maxMs?: number;
+}
+
+export interface ClipScores {
+  // Starts without leaning on earlier context, ends on a finished sentence, mostly one voice
+  self_contained: number;
+  // How strongly the opening lines grab attention
+  hook: number;
+  // Closeness to the ideal short-form length
+  length: number;
+}
+
+export interface ClipSuggestion {
+  rank: number;
+  start: number;
+  end: number;
+  title: string;
+  speakers: string[];
+  text: string;
+  // 0-100, a weighted mix of the component scores
+  score: number;
+  scores: ClipScores;
+}
+
+interface Utterance {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+  // First paragraph of its speaker turn
+  turnStart: boolean;
+}
+
+const sentences = (text: string) => text.split(/(?<=[.!?])\s+/).filter(Boolean);
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+function flatten(transcript: Transcript): Utterance[] {
+  return transcript.segments.flatMap(segment => segment.paragraphs.map((paragraph, i) => ({
+    speaker: segment.speaker,
+    start: paragraph.start,
+    end: paragraph.end,
+    text: paragraph.text.trim(),
+    turnStart: i === 0,
+  }))).filter(utterance => utterance.text);
+}
+
+function scoreSelfContained(window: Utterance[], next: Utterance | undefined): number {
+  const first = window[0];
+  const last = window[window.length - 1];
+  const opening = first.text.replace(FILLER_OPENING, '');
+
+  const bySpeaker = new Map<string, number>();
+  for (const utterance of window) {
+    bySpeaker.set(utterance.speaker, (bySpeaker.get(utterance.speaker) || 0) + utterance.end - utterance.start);
+  }
+  const total = last.end - first.start || 1;
+  const focus = Math.max(...bySpeaker.values()) / total;
+
+  return clamp(
+    (DANGLING_OPENING.test(opening) ? 0 : 0.35) +
+    (SENTENCE_END.test(last.text) ? 0.2 : 0) +
+    (first.turnStart ? 0.15 : 0.07) +
+    (!next || next.speaker !== last.speaker || next.turnStart ? 0.15 : 0.08) +
+    0.15 * (focus >= 0.7 ? 1 : focus)
+  );
+}
+
+function scoreHook(window: Utterance[]): number {
+  const opening = sentences(window.map(utterance => utterance.text).join(' ')).slice(0, HOOK_SENTENCES);
+  const text = opening.join(' ');
+  const strong = new Set((text.match(STRONG_WORDS) || []).map(word => word.toLowerCase())).size;
+
+  return clamp(
+    (opening.some(sentence => sentence.endsWith('?')) ? 0.25 : 0) +
+    0.35 * Math.min(strong, 3) / 3 +
+    (/\d/.test(text) ? 0.1 : 0) +
+    (opening[0] && wordCount(opening[0]) <= 15 ? 0.2 : 0) +
+    (/\byou\b/i.test(text) ? 0.1 : 0)
+  );
+}
+
+function scoreLength(durationMs: number): number {
+  return clamp(1 - Math.abs(durationMs - IDEAL_CLIP_MS) / IDEAL_CLIP_MS);
+}
+
+// The punchiest of the opening sentences, trimmed to fit a title
+export function suggestClipTitle(text: string): string {
+  const candidates = sentences(text).slice(0, 3).map(sentence => sentence.replace(FILLER_OPENING, '').trim()).filter(Boolean);
+  if (candidates.length === 0) return 'Untitled clip';
+
+  const punch = (sentence: string) =>
+    (sentence.match(STRONG_WORDS) || []).length + (sentence.endsWith('?') ? 1 : 0) - wordCount(sentence) / 30;
+  let title = candidates.reduce((best, sentence) => punch(sentence) > punch(best) ? sentence : best);
+
+  if (title.length > TITLE_MAX_CHARS) {
+    title = `${title.slice(0, TITLE_MAX_CHARS).replace(/\s+\S*$/, '')}…`;
+  }
+  title = title.replace(/[.,;:]$/, '');
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+// Scores every window of consecutive utterances between the minimum and maximum
+// length, so cut points always fall on utterance boundaries, then keeps the best
+// windows that don't overlap
+export function findClips(
+  transcript: Transcript,
+  { count = DEFAULT_CLIP_COUNT, minMs = DEFAULT_MIN_CLIP_MS, maxMs = DEFAULT_MAX_CLIP_MS }: ClipOptions = {}
+): ClipSuggestion[] {
+  const utterances = flatten(transcript);
+  const candidates: Omit<ClipSuggestion, 'rank' | 'title'>[] = [];
+
+  for (let i = 0; i < utterances.length; i++) {
+    for (let j = i; j < utterances.length; j++) {
+      const duration = utterances[j].end - utterances[i].start;
+      if (duration > maxMs) break;
+      if (duration < minMs) continue;
+
+      const window = utterances.slice(i, j + 1);
+      const scores: ClipScores = {
+        self_contained: scoreSelfContained(window, utterances[j + 1]),
+        hook: scoreHook(window),
+        length: scoreLength(duration),
+      };
+
+      candidates.push({
+        start: utterances[i].start,
+        end: utterances[j].end,
+        speakers: Array.from(new Set(window.map(utterance => utterance.speaker))),
+        text: window.map(utterance => utterance.text).join(' '),
+        score: Math.round(100 * (0.55 * scores.self_contained + 0.35 * scores.hook + 0.1 * scores.length)),
+        scores,
+      });
+    }
+  }
+
+  const chosen: typeof candidates = [];
+  for (const candidate of candidates.sort((a, b) => b.score - a.score || a.start - b.start)) {
+    if (chosen.length >= count) break;
+    if (chosen.every(other => candidate.end <= other.start || candidate.start >= other.end)) {
+      chosen.push(candidate);
+    }
+  }
+
+  return chosen.map((clip, i) => ({ ...clip, rank: i + 1, title: suggestClipTitle(clip.text) }));
+}
+
+// Words inside the clip, re-timed so the clip starts at zero. Transcripts
+// without word timings spread each paragraph's words evenly across it.
+function clipWords(transcript: Transcript, start: number, end: number): CaptionWord[] {
+  return transcript.segments.flatMap(segment => segment.paragraphs.flatMap(paragraph => {
+    if (paragraph.end <= start || paragraph.start >= end) return [];
+
+    const words = paragraph.words?.length
+      ? paragraph.words
+      : paragraph.text.split(/\s+/).filter(Boolean).map((text, i, all) => {
+          const step = (paragraph.end - paragraph.start) / all.length;
+          return { text, start: paragraph.start + i * step, end: paragraph.start + (i + 1) * step };
+        });
+
+    return words
+      .filter(word => word.start >= start && word.end <= end)
+      .map(word => ({ text: word.text, start: word.start - start, end: word.end - start, speaker: segment.speaker }));
+  }));
+}
+
+export function clipSrt(
+  transcript: Transcript,
+  clip: { start: number; end: number },
+  options: CaptionOptions = DEFAULT_CAPTION_OPTIONS,
+  speakerNames: SpeakerNames = {}
+): string {
+  return toSrt(buildCaptionCues(clipWords(transcript, clip.start, clip.end), options, speakerNames));
+}
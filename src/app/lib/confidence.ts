@@ -0,0 +1,106 @@
+import { formatTimestamp } from './transcript';
+import { Paragraph, Transcript, Word } from './transcript-model';
+
+// Words the transcriber was less sure of than this are treated as uncertain
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface UncertainSpan {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+  // Lowest word confidence in the span
+  confidence: number;
+}
+
+export interface ConfidencePassage {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+  uncertainWords: number;
+}
+
+export function isLowConfidence(word: Word, threshold = LOW_CONFIDENCE_THRESHOLD): boolean {
+  return word.confidence !== undefined && word.confidence < threshold;
+}
+
+// Utterance confidence when the transcriber gave one, otherwise the mean of its words
+export function paragraphConfidence(paragraph: Paragraph): number | undefined {
+  if (paragraph.confidence !== undefined) return paragraph.confidence;
+
+  const scored = (paragraph.words || []).filter(word => word.confidence !== undefined);
+  if (scored.length === 0) return undefined;
+  return scored.reduce((sum, word) => sum + word.confidence!, 0) / scored.length;
+}
+
+// Runs of low-confidence words, allowing one confident word inside a run so
+// "the [uncertain] of [uncertain]" reads as one passage rather than two
+export function findUncertainSpans(transcript: Transcript, threshold = LOW_CONFIDENCE_THRESHOLD): UncertainSpan[] {
+  const spans: UncertainSpan[] = [];
+
+  for (const segment of transcript.segments) {
+    for (const paragraph of segment.paragraphs) {
+      const words = paragraph.words || [];
+      let i = 0;
+
+      while (i < words.length) {
+        if (!isLowConfidence(words[i], threshold)) {
+          i++;
+          continue;
+        }
+
+        let end = i;
+        while (
+          end + 1 < words.length &&
+          (isLowConfidence(words[end + 1], threshold) ||
+            (end + 2 < words.length && isLowConfidence(words[end + 2], threshold)))
+        ) {
+          end++;
+        }
+
+        const run = words.slice(i, end + 1);
+        spans.push({
+          speaker: segment.speaker,
+          start: run[0].start,
+          end: run[run.length - 1].end,
+          text: run.map(word => word.text).join(' '),
+          confidence: Math.min(...run.filter(word => word.confidence !== undefined).map(word => word.confidence!)),
+        });
+        i = end + 1;
+      }
+    }
+  }
+
+  return spans;
+}
+
+export function lowestConfidencePassages(
+  transcript: Transcript,
+  limit = 10,
+  threshold = LOW_CONFIDENCE_THRESHOLD
+): ConfidencePassage[] {
+  return transcript.segments
+    .flatMap(segment => segment.paragraphs.flatMap((paragraph): ConfidencePassage[] => {
+      const confidence = paragraphConfidence(paragraph);
+      if (confidence === undefined) return [];
+      return [{
+        speaker: segment.speaker,
+        start: paragraph.start,
+        end: paragraph.end,
+        text: paragraph.text,
+        confidence,
+        uncertainWords: (paragraph.words || []).filter(word => isLowConfidence(word, threshold)).length,
+      }];
+    }))
+    .sort((a, b) => a.confidence - b.confidence)
+    .slice(0, limit);
+}
+
+// One line per span, for the enhancement prompt
+export function formatUncertainSpans(spans: UncertainSpan[]): string {
+  return spans
+    .map(span => `${formatTimestamp(span.start)} (${Math.round(span.confidence * 100)}%): "${span.text}"`)
+    .join('\n');
+}
@@ -0,0 +1,250 @@
+import { formatTimestamp } from './transcript';
+import { Segment, Transcript } from './transcript-model';
+
+// Stands in for a paragraph break inside a turn's token list
+export const PARAGRAPH_BREAK = '\n';
+
+// Above this many DP cells a turn is diffed greedily instead, to keep memory bounded
+const MAX_DP_CELLS = 4_000_000;
+const GREEDY_LOOKAHEAD = 40;
+
+const FILLER_WORDS = new Set([
+  'um', 'uh', 'ah', 'er', 'hmm', 'mm', 'like', 'yeah', 'so', 'well', 'right', 'okay', 'ok',
+  'you', 'know', 'i', 'mean', 'just', 'actually', 'basically', 'literally',
+]);
+
+export type ChangeKind = 'filler' | 'delete' | 'insert' | 'replace' | 'punctuation' | 'paragraph';
+
+export interface DiffChange {
+  id: number;
+  turn: number;
+  kind: ChangeKind;
+  // Tokens from the left transcript that the right one drops
+  removed: string[];
+  // Tokens the right transcript has in their place
+  added: string[];
+}
+
+export type DiffPiece = { type: 'equal'; tokens: string[] } | { type: 'change'; change: DiffChange };
+
+export interface DiffTurn {
+  speaker: string;
+  timestamp: string;
+  pieces: DiffPiece[];
+  changeCount: number;
+}
+
+export interface TranscriptDiff {
+  turns: DiffTurn[];
+  changes: DiffChange[];
+}
+
+// True means the right-hand version of the change is used
+export type ChangeDecisions = Record<number, boolean>;
+
+type Op = { type: 'equal' | 'delete' | 'insert'; token: string };
+
+function tokenizeSegment(segment: Segment): string[] {
+  return segment.paragraphs.flatMap((paragraph, i) => [
+    ...(i > 0 ? [PARAGRAPH_BREAK] : []),
+    ...paragraph.text.split(/\s+/).filter(Boolean),
+  ]);
+}
+
+const normalize = (token: string) => token.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+function dpOps(a: string[], b: string[]): Op[] {
+  const width = b.length + 1;
+  const table = new Uint16Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', token: b[j] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push({ type: 'delete', token: a[i++] });
+    } else {
+      ops.push({ type: 'insert', token: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', token: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', token: b[j++] });
+  return ops;
+}
+
+// For very long turns: on a mismatch, skip ahead in whichever side resyncs sooner
+function greedyOps(a: string[], b: string[]): Op[] {
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', token: b[j] });
+      i++;
+      j++;
+      continue;
+    }
+
+    const inB = b.slice(j, j + GREEDY_LOOKAHEAD).indexOf(a[i]);
+    const inA = a.slice(i, i + GREEDY_LOOKAHEAD).indexOf(b[j]);
+
+    if (inA !== -1 && (inB === -1 || inA <= inB)) {
+      for (let k = 0; k < inA; k++) ops.push({ type: 'delete', token: a[i++] });
+    } else if (inB !== -1) {
+      for (let k = 0; k < inB; k++) ops.push({ type: 'insert', token: b[j++] });
+    } else {
+      ops.push({ type: 'delete', token: a[i++] });
+      ops.push({ type: 'insert', token: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', token: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', token: b[j++] });
+  return ops;
+}
+
+export function diffTokens(a: string[], b: string[]): Op[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = (middleA.length + 1) * (middleB.length + 1) <= MAX_DP_CELLS
+    ? dpOps(middleA, middleB)
+    : greedyOps(middleA, middleB);
+
+  return [
+    ...a.slice(0, prefix).map(token => ({ type: 'equal' as const, token })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(token => ({ type: 'equal' as const, token })),
+  ];
+}
+
+function classify(removed: string[], added: string[]): ChangeKind {
+  const words = (tokens: string[]) =>
+    tokens.filter(token => token !== PARAGRAPH_BREAK).map(normalize).filter(Boolean);
+  const removedWords = words(removed);
+  const addedWords = words(added);
+
+  if (removedWords.length === 0 && addedWords.length === 0) {
+    return removed.length + added.length > 0 && removed.concat(added).every(token => token === PARAGRAPH_BREAK)
+      ? 'paragraph'
+      : 'punctuation';
+  }
+  if (removedWords.length === 0) return 'insert';
+
+  // "been, uh," -> "been" is a filler removal with a punctuation fix, not a rewrite
+  const dropped: string[] = [];
+  let next = 0;
+  for (const word of removedWords) {
+    if (next < addedWords.length && word === addedWords[next]) next++;
+    else dropped.push(word);
+  }
+
+  if (next < addedWords.length) return 'replace';
+  if (dropped.length === 0) return 'punctuation';
+  if (dropped.every(word => FILLER_WORDS.has(word))) return 'filler';
+  return 'delete';
+}
+
+const turnKey = (segment: Segment) => `${segment.speaker} ${formatTimestamp(segment.start)}`;
+
+// Enhancers keep speaker headers, so turns are paired on speaker + timestamp first;
+// a turn only one side has is shown as wholly deleted or inserted
+function pairTurns(left: Segment[], right: Segment[]): [Segment | null, Segment | null][] {
+  const ops = diffTokens(left.map(turnKey), right.map(turnKey));
+  const pairs: [Segment | null, Segment | null][] = [];
+  let i = 0;
+  let j = 0;
+
+  for (const op of ops) {
+    if (op.type === 'equal') pairs.push([left[i++], right[j++]]);
+    else if (op.type === 'delete') pairs.push([left[i++], null]);
+    else pairs.push([null, right[j++]]);
+  }
+
+  return pairs;
+}
+
+export function diffTranscripts(left: Transcript, right: Transcript): TranscriptDiff {
+  const changes: DiffChange[] = [];
+
+  const turns = pairTurns(left.segments, right.segments).map(([a, b], turn): DiffTurn => {
+    const segment = (b || a)!;
+    const ops = diffTokens(a ? tokenizeSegment(a) : [], b ? tokenizeSegment(b) : []);
+    const pieces: DiffPiece[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+    let changeCount = 0;
+
+    const flush = () => {
+      if (removed.length === 0 && added.length === 0) return;
+      const change: DiffChange = { id: changes.length, turn, kind: classify(removed, added), removed, added };
+      changes.push(change);
+      pieces.push({ type: 'change', change });
+      changeCount++;
+      removed = [];
+      added = [];
+    };
+
+    for (const op of ops) {
+      if (op.type === 'delete') {
+        removed.push(op.token);
+      } else if (op.type === 'insert') {
+        added.push(op.token);
+      } else {
+        flush();
+        const last = pieces[pieces.length - 1];
+        if (last?.type === 'equal') last.tokens.push(op.token);
+        else pieces.push({ type: 'equal', tokens: [op.token] });
+      }
+    }
+    flush();
+
+    return { speaker: segment.speaker, timestamp: formatTimestamp(segment.start), pieces, changeCount };
+  });
+
+  return { turns, changes };
+}
+
+function joinTokens(tokens: string[]): string {
+  return tokens
+    .join(' ')
+    .split(` ${PARAGRAPH_BREAK} `)
+    .map(paragraph => paragraph.replaceAll(PARAGRAPH_BREAK, '').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Builds speaker-headed Markdown from the diff, taking each change from whichever side was chosen
+export function assembleMarkdown(diff: TranscriptDiff, decisions: ChangeDecisions, acceptByDefault = true): string {
+  return diff.turns
+    .map(turn => {
+      const tokens = turn.pieces.flatMap(piece => {
+        if (piece.type === 'equal') return piece.tokens;
+        const accepted = decisions[piece.change.id] ?? acceptByDefault;
+        return accepted ? piece.change.added : piece.change.removed;
+      });
+      const body = joinTokens(tokens);
+      return body ? `${turn.speaker} ${turn.timestamp}\n\n${body}` : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
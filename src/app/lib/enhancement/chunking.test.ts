@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TranscriptSegment, estimateTokens } from '../transcript';
+import {
+  Chunk,
+  createChunks,
+  formatChunkRequest,
+  splitOversizedSegment,
+  stitchChunk,
+  stripContextEcho,
+} from './chunking';
+
+function segment(speaker: string, timestamp: string, text: string): TranscriptSegment {
+  return { speaker, timestamp, text, tokenCount: estimateTokens(text) };
+}
+
+// "Sentence 1 of the turn." and so on: about six tokens each
+function sentences(count: number, separator = ' '): string {
+  return Array.from({ length: count }, (_, i) => `Sentence ${i + 1} of the turn.`).join(separator);
+}
+
+describe('splitOversizedSegment', () => {
+  it('leaves a segment within the limit alone', () => {
+    const short = segment('SPEAKER A', '0:00:00', sentences(3));
+    assert.deepEqual(splitOversizedSegment(short, 100), [short]);
+  });
+
+  it('splits a long turn at sentence boundaries and marks the later pieces', () => {
+    const long = segment('SPEAKER A', '0:01:00', sentences(20));
+    const pieces = splitOversizedSegment(long, 30);
+
+    assert.ok(pieces.length > 1);
+    assert.equal(pieces[0].continuation, undefined);
+    for (const piece of pieces) {
+      assert.ok(piece.tokenCount <= 30);
+      // Starts and ends on a sentence boundary
+      assert.match(piece.text, /^Sentence \d+ .*\.$/);
+      assert.equal(piece.speaker, 'SPEAKER A');
+      assert.equal(piece.timestamp, '0:01:00');
+    }
+    assert.ok(pieces.slice(1).every(piece => piece.continuation));
+    assert.equal(pieces.map(piece => piece.text).join(' '), long.text);
+  });
+
+  it('keeps line breaks inside a piece', () => {
+    const long = segment('SPEAKER A', '0:00:00', sentences(12, '\n'));
+    const pieces = splitOversizedSegment(long, 30);
+
+    assert.ok(pieces.length > 1);
+    assert.ok(pieces.every(piece => piece.text.split('\n').length > 1));
+    assert.equal(pieces.map(piece => piece.text).join('\n'), long.text);
+  });
+
+  it('cuts a sentence without punctuation at word boundaries', () => {
+    const words = Array.from({ length: 80 }, (_, i) => `word${i}`).join(' ');
+    const pieces = splitOversizedSegment(segment('SPEAKER B', '0:02:00', words), 20);
+
+    assert.ok(pieces.length > 1);
+    assert.ok(pieces.every(piece => piece.tokenCount <= 20));
+    assert.equal(pieces.map(piece => piece.text).join(' '), words);
+  });
+});
+
+describe('createChunks', () => {
+  const turns = [
+    segment('SPEAKER A', '0:00:00', sentences(4)),
+    segment('SPEAKER B', '0:00:30', sentences(4)),
+    segment('SPEAKER A', '0:01:00', sentences(4)),
+  ];
+
+  it('gives each chunk read-only context from its neighbours', () => {
+    const chunks = createChunks(turns, { maxTokens: 30, contextTokens: 12 });
+
+    assert.equal(chunks.length, 3);
+    assert.equal(chunks[0].contextBefore, '');
+    assert.equal(chunks[2].contextAfter, '');
+    // The end of the previous turn and the start of the next one
+    assert.equal(chunks[1].contextBefore, 'SPEAKER A 0:00:00\n\nSentence 3 of the turn. Sentence 4 of the turn.');
+    assert.equal(chunks[1].contextAfter, 'SPEAKER A 0:01:00\n\nSentence 1 of the turn. Sentence 2 of the turn.');
+  });
+
+  it('leaves context out when it has no budget', () => {
+    const chunks = createChunks(turns, { maxTokens: 30, contextTokens: 0 });
+    assert.ok(chunks.every(chunk => !chunk.contextBefore && !chunk.contextAfter));
+  });
+
+  it('starts a new chunk part way through a long turn', () => {
+    const chunks = createChunks([segment('SPEAKER A', '0:00:00', sentences(20))], { maxTokens: 30, contextTokens: 10 });
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.slice(1).every(chunk => chunk.segments[0].continuation));
+    assert.ok(chunks.every(chunk => chunk.startTime === '0:00:00'));
+  });
+});
+
+describe('stripContextEcho', () => {
+  const chunk = createChunks(
+    [segment('SPEAKER A', '0:00:00', sentences(4)), segment('SPEAKER B', '0:00:30', sentences(4))],
+    { maxTokens: 30, contextTokens: 10 }
+  )[1];
+
+  it('wraps a chunk that has neighbours in context tags', () => {
+    const request = formatChunkRequest(chunk);
+    assert.match(request, /<preceding_context>\nSPEAKER A 0:00:00/);
+    assert.match(request, /<transcript_chunk>\nSPEAKER B 0:00:30/);
+  });
+
+  it('keeps only the chunk when the model echoes the whole request', () => {
+    assert.equal(stripContextEcho(formatChunkRequest(chunk)), `SPEAKER B 0:00:30\n\n${sentences(4)}`);
+  });
+
+  it('drops echoed context outside the chunk tags', () => {
+    const output = '<preceding_context>\nSPEAKER A 0:00:00\n\nEarlier.\n</preceding_context>\n\nSPEAKER B 0:00:30\n\nCleaned.';
+    assert.equal(stripContextEcho(output), 'SPEAKER B 0:00:30\n\nCleaned.');
+  });
+
+  it('drops a context section that was cut off', () => {
+    assert.equal(stripContextEcho('SPEAKER B 0:00:30\n\nCleaned.\n\n<following_context>\nSPEAKER A'), 'SPEAKER B 0:00:30\n\nCleaned.');
+  });
+});
+
+describe('stitchChunk', () => {
+  const chunkOf = (...segments: TranscriptSegment[]): Chunk => createChunks(segments, { contextTokens: 0 })[0];
+  const turn = segment('SPEAKER A', '0:01:00', 'Cleaned text.');
+  const continued = { ...turn, continuation: true };
+
+  it('keeps output that starts with its header', () => {
+    assert.equal(stitchChunk('SPEAKER A 0:01:00\n\nCleaned text.', chunkOf(turn)), 'SPEAKER A 0:01:00\n\nCleaned text.');
+  });
+
+  it('puts back a header the model dropped', () => {
+    assert.equal(stitchChunk('Cleaned text.', chunkOf(turn)), 'SPEAKER A 0:01:00\n\nCleaned text.');
+  });
+
+  it('removes the repeated header of a continued turn', () => {
+    assert.equal(stitchChunk('SPEAKER A 0:01:00\n\nMore of the turn.', chunkOf(continued)), 'More of the turn.');
+  });
+
+  it('leaves a continued turn without a header as it is', () => {
+    assert.equal(stitchChunk('More of the turn.', chunkOf(continued)), 'More of the turn.');
+  });
+
+  it('keeps a different speaker header on a continued turn', () => {
+    const output = 'SPEAKER B 0:01:05\n\nSomeone else.';
+    assert.equal(stitchChunk(output, chunkOf(continued)), output);
+  });
+
+  it('joins stitched chunks into one header per turn', () => {
+    const chunks = createChunks([segment('SPEAKER A', '0:00:00', sentences(12))], { maxTokens: 30, contextTokens: 0 });
+    // Models often repeat the header on every chunk
+    const stitched = chunks
+      .map(chunk => stitchChunk(`SPEAKER A 0:00:00\n\n${chunk.segments.map(piece => piece.text).join(' ')}`, chunk))
+      .join('\n\n');
+
+    assert.equal(stitched.match(/SPEAKER A 0:00:00/g)?.length, 1);
+  });
+});
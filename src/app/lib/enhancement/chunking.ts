@@ -0,0 +1,211 @@
+import { CHUNK_CONTEXT_INSTRUCTIONS } from '../prompts';
+import { TranscriptSegment, estimateTokens, matchSpeakerHeader } from '../transcript';
+
+export const DEFAULT_CHUNK_TOKENS = 2000;
+export const DEFAULT_CONTEXT_TOKENS = 200;
+
+export interface ChunkSegment extends TranscriptSegment {
+  // Set on the second and later pieces of a turn that was too long for one chunk
+  continuation?: boolean;
+}
+
+export interface Chunk {
+  segments: ChunkSegment[];
+  totalTokens: number;
+  startTime: string;
+  endTime: string;
+  // Neighbouring transcript the model may read but must not return
+  contextBefore: string;
+  contextAfter: string;
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  contextTokens?: number;
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(paragraph => paragraph.match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)\s*/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// [start, end) offsets into a segment's text
+type Span = [number, number];
+
+// Sentences as offsets rather than strings, so pieces cut from the text keep its own
+// separators (line breaks included) between the sentences they hold
+function sentenceSpans(text: string): Span[] {
+  const spans: Span[] = [];
+  for (const match of text.matchAll(/[^.!?…\n]+(?:[.!?…]+["'”’)\]]*)?/g)) {
+    const content = match[0].trim();
+    if (!content) continue;
+    const start = match.index + match[0].length - match[0].trimStart().length;
+    spans.push([start, start + content.length]);
+  }
+  return spans;
+}
+
+// A single sentence over the limit (ASR output without punctuation) is cut at word boundaries
+function wordSpans(text: string, [start, end]: Span): Span[] {
+  return Array.from(text.slice(start, end).matchAll(/\S+/g), (match): Span => [
+    start + match.index,
+    start + match.index + match[0].length,
+  ]);
+}
+
+// Merges consecutive spans for as long as the text they cover stays within the limit
+function groupSpans(text: string, spans: Span[], maxTokens: number): Span[] {
+  const groups: Span[] = [];
+  for (const [start, end] of spans) {
+    const last = groups[groups.length - 1];
+    if (last && estimateTokens(text.slice(last[0], end)) <= maxTokens) {
+      last[1] = end;
+    } else {
+      groups.push([start, end]);
+    }
+  }
+  return groups;
+}
+
+export function splitOversizedSegment(segment: TranscriptSegment, maxTokens: number): ChunkSegment[] {
+  if (segment.tokenCount <= maxTokens) return [segment];
+
+  const { text } = segment;
+  const sentences = sentenceSpans(text).flatMap(span =>
+    estimateTokens(text.slice(...span)) > maxTokens ? groupSpans(text, wordSpans(text, span), maxTokens) : [span]
+  );
+  const pieces = groupSpans(text, sentences, maxTokens).map(span => text.slice(...span));
+
+  // Later pieces keep the turn's timestamp; stitching drops their repeated header again
+  return pieces.map((piece, i) => ({
+    speaker: segment.speaker,
+    timestamp: segment.timestamp,
+    text: piece,
+    tokenCount: estimateTokens(piece),
+    ...(i > 0 && { continuation: true }),
+  }));
+}
+
+function formatSegment(segment: TranscriptSegment): string {
+  return `${segment.speaker} ${segment.timestamp}\n\n${segment.text}`;
+}
+
+// Takes whole sentences from the end (or start) of the neighbouring segments until the budget is spent
+function collectContext(segments: ChunkSegment[], maxTokens: number, fromEnd: boolean): string {
+  if (maxTokens <= 0) return '';
+
+  const parts: string[] = [];
+  let remaining = maxTokens;
+  const ordered = fromEnd ? [...segments].reverse() : segments;
+
+  for (const segment of ordered) {
+    if (remaining <= 0) break;
+
+    const sentences = splitSentences(segment.text);
+    if (fromEnd) sentences.reverse();
+
+    const taken: string[] = [];
+    for (const sentence of sentences) {
+      const tokens = estimateTokens(sentence);
+      if (taken.length > 0 && tokens > remaining) break;
+      taken.push(sentence);
+      remaining -= tokens;
+      if (remaining <= 0) break;
+    }
+
+    if (fromEnd) taken.reverse();
+    parts.push(formatSegment({ ...segment, text: taken.join(' ') }));
+  }
+
+  if (fromEnd) parts.reverse();
+  return parts.join('\n\n');
+}
+
+export function createChunks(
+  segments: TranscriptSegment[],
+  { maxTokens = DEFAULT_CHUNK_TOKENS, contextTokens = DEFAULT_CONTEXT_TOKENS }: ChunkOptions = {}
+): Chunk[] {
+  const pieces = segments.flatMap(segment => splitOversizedSegment(segment, maxTokens));
+  const groups: ChunkSegment[][] = [];
+  let currentChunk: ChunkSegment[] = [];
+  let currentTokens = 0;
+  
+  for (const segment of pieces) {
+    // If adding this segment would exceed the limit and we have segments
+    if (currentTokens + segment.tokenCount > maxTokens && currentChunk.length > 0) {
+      groups.push(currentChunk);
+      currentChunk = [segment];
+      currentTokens = segment.tokenCount;
+    } else {
+      currentChunk.push(segment);
+      currentTokens += segment.tokenCount;
+    }
+  }
+  
+  if (currentChunk.length > 0) {
+    groups.push(currentChunk);
+  }
+  
+  return groups.map((group, i) => ({
+    segments: group,
+    totalTokens: group.reduce((sum, segment) => sum + segment.tokenCount, 0),
+    startTime: group[0].timestamp,
+    endTime: group[group.length - 1].timestamp,
+    contextBefore: i > 0 ? collectContext(groups[i - 1], contextTokens, true) : '',
+    contextAfter: i < groups.length - 1 ? collectContext(groups[i + 1], contextTokens, false) : '',
+  }));
+}
+
+export function formatChunk(chunk: Chunk): string {
+  return chunk.segments.map(formatSegment).join('\n\n');
+}
+
+// The text sent to the model: the chunk itself, wrapped with its read-only neighbours when it has any
+export function formatChunkRequest(chunk: Chunk, contextInstructions: string = CHUNK_CONTEXT_INSTRUCTIONS): string {
+  const formatted = formatChunk(chunk);
+  if (!chunk.contextBefore && !chunk.contextAfter) return formatted;
+
+  const sections = [contextInstructions];
+  if (chunk.contextBefore) {
+    sections.push(`<preceding_context>\n${chunk.contextBefore}\n</preceding_context>`);
+  }
+  sections.push(`<transcript_chunk>\n${formatted}\n</transcript_chunk>`);
+  if (chunk.contextAfter) {
+    sections.push(`<following_context>\n${chunk.contextAfter}\n</following_context>`);
+  }
+
+  return sections.join('\n\n');
+}
+
+// The opening tag must end its line, as formatChunkRequest writes it, so the mention of
+// <transcript_chunk> in the echoed instructions isn't taken for the chunk itself
+export function stripContextEcho(output: string): string {
+  const wrapped = output.match(/<transcript_chunk>[ \t]*\n([\s\S]*?)(?:<\/transcript_chunk>|$)/);
+  const text = wrapped ? wrapped[1] : output;
+  return text
+    .replace(/<(preceding|following)_context>[\s\S]*?(?:<\/\1_context>|$)/g, '')
+    .trim();
+}
+
+// Cleans one chunk's output so the pieces can simply be joined with blank lines: the header is
+// restored if the model dropped it, and removed when the chunk continues the previous chunk's turn
+export function stitchChunk(output: string, chunk: Chunk): string {
+  const text = stripContextEcho(output);
+  const first = chunk.segments[0];
+  const lines = text.split(/\r?\n/);
+  const firstLine = lines.findIndex(line => line.trim());
+  const header = firstLine >= 0 ? matchSpeakerHeader(lines, firstLine) : null;
+
+  if (!header) {
+    return first.continuation ? text : formatSegment({ ...first, text });
+  }
+
+  if (first.continuation && header[1] === first.speaker) {
+    return lines.slice(firstLine + 1).join('\n').trim();
+  }
+
+  return text;
+}
@@ -0,0 +1,55 @@
+import { ProviderConfig, ProviderLimits, ProviderOverrides } from './types';
+
+function readNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Request overrides win over <PREFIX>_MODEL / _MAX_TOKENS / _TEMPERATURE env vars,
+// which win over the provider's defaults
+export function resolveProviderConfig(
+  envPrefix: string,
+  defaults: ProviderConfig,
+  overrides: ProviderOverrides = {}
+): ProviderConfig {
+  return {
+    model: overrides.model || process.env[`${envPrefix}_MODEL`] || defaults.model,
+    maxTokens: overrides.maxTokens ?? readNumber(process.env[`${envPrefix}_MAX_TOKENS`]) ?? defaults.maxTokens,
+    temperature: overrides.temperature ?? readNumber(process.env[`${envPrefix}_TEMPERATURE`]) ?? defaults.temperature,
+  };
+}
+
+// <PREFIX>_CONCURRENCY and <PREFIX>_TOKENS_PER_MINUTE tune the chunk scheduler per provider;
+// <PREFIX>_CONTEXT_TOKENS matches the context window to the configured model
+export function resolveProviderLimits(envPrefix: string, defaults: ProviderLimits): ProviderLimits {
+  const concurrency = readNumber(process.env[`${envPrefix}_CONCURRENCY`]);
+  const tokensPerMinute = readNumber(process.env[`${envPrefix}_TOKENS_PER_MINUTE`]);
+  const contextTokens = readNumber(process.env[`${envPrefix}_CONTEXT_TOKENS`]);
+
+  return {
+    concurrency: concurrency && concurrency >= 1 ? Math.floor(concurrency) : defaults.concurrency,
+    tokensPerMinute: tokensPerMinute && tokensPerMinute > 0 ? tokensPerMinute : defaults.tokensPerMinute,
+    contextTokens: contextTokens && contextTokens > 0 ? contextTokens : defaults.contextTokens,
+  };
+}
+
+export function parseProviderOverrides(input: Record<string, unknown>): ProviderOverrides {
+  const overrides: ProviderOverrides = {};
+
+  if (typeof input.model === 'string' && input.model.trim()) {
+    overrides.model = input.model.trim();
+  }
+
+  const maxTokens = readNumber(input.maxTokens);
+  if (maxTokens !== undefined && maxTokens > 0) {
+    overrides.maxTokens = Math.floor(maxTokens);
+  }
+
+  const temperature = readNumber(input.temperature);
+  if (temperature !== undefined && temperature >= 0) {
+    overrides.temperature = temperature;
+  }
+
+  return overrides;
+}
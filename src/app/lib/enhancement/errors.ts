@@ -0,0 +1,40 @@
+// 429 is a rate limit, 529 is Anthropic's "overloaded"; both clear up if we wait
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 529]);
+
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_STATUSES.has(this.status);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function providerErrorFromResponse(label: string, response: Response): ProviderRequestError {
+  return new ProviderRequestError(
+    `${label} API error: ${response.status}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ProviderRequestError && error.retryable;
+}
@@ -0,0 +1,181 @@
+import { matchSpeakerHeader } from '../transcript';
+
+export interface FaithfulnessThresholds {
+  // Minimum share of the source's distinct content words the output must keep
+  minRetainedRatio: number;
+  // Maximum share of output content words that never appear in the source
+  maxNovelRatio: number;
+  // Minimum share of output words that line up, in order, with the source
+  minAlignmentRatio: number;
+}
+
+// Tuned for a cleanup that keeps the speakers' words; heavier edits need looser limits
+export const DEFAULT_FAITHFULNESS_THRESHOLDS: FaithfulnessThresholds = {
+  minRetainedRatio: 0.85,
+  maxNovelRatio: 0.1,
+  minAlignmentRatio: 0.8,
+};
+
+const TRUNCATED_STOP_REASONS = new Set(['max_tokens', 'length', 'MAX_TOKENS']);
+
+// Whether the model stopped because it ran out of output tokens, in any provider's words
+export const isTruncated = (stopReason?: string) => !!stopReason && TRUNCATED_STOP_REASONS.has(stopReason);
+
+// "Here is the cleaned transcript:" and friends, which the prompt tells the model not to write
+const PREAMBLE_PATTERN = /^(?:here(?: is|'s| are)|below is|sure|certainly|okay)\b.*\btranscript\b/i;
+
+// Words the prompt asks the model to remove, plus function words that carry no content.
+// Neither counts towards retention, so dropping them is never penalised.
+const IGNORED_WORDS = new Set([
+  'um', 'uh', 'ah', 'er', 'hmm', 'mm', 'like', 'yeah', 'so', 'well', 'right', 'okay', 'ok', 'mean', 'know',
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', "it's", 'its', 'that', 'this', 'i', 'you', 'we', 'they',
+  'he', 'she', 'just', 'really', 'very', 'kind', 'sort', 'actually', 'basically', 'literally', 'think',
+]);
+
+export interface FaithfulnessMetrics {
+  retainedRatio: number;
+  novelRatio: number;
+  alignmentRatio: number;
+  missingHeaders: string[];
+  stopReason?: string;
+}
+
+export interface FaithfulnessCheck {
+  passed: boolean;
+  issues: string[];
+  metrics: FaithfulnessMetrics;
+}
+
+export interface ChunkFaithfulness {
+  index: number;
+  passed: boolean;
+  // Requests made for this chunk, counting the first
+  attempts: number;
+  // True when the original chunk text was used instead of the model's output
+  fellBack: boolean;
+  issues: string[];
+  metrics?: FaithfulnessMetrics;
+}
+
+export interface FaithfulnessSummary {
+  checked: number;
+  passed: number;
+  retried: number;
+  fellBack: number[];
+  chunks: ChunkFaithfulness[];
+}
+
+function splitTranscript(text: string): { headers: string[]; words: string[] } {
+  const headers: string[] = [];
+  const words: string[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (const [i, line] of lines.entries()) {
+    const header = matchSpeakerHeader(lines, i);
+    if (header) {
+      headers.push(`${header[1]} ${header[2]}`);
+      continue;
+    }
+
+    for (const raw of line.toLowerCase().split(/\s+/)) {
+      const word = raw.replace(/[’]/g, "'").replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+      if (word) words.push(word);
+    }
+  }
+
+  return { headers, words };
+}
+
+const isContentWord = (word: string) => !IGNORED_WORDS.has(word);
+
+// Length of the longest common subsequence, using two rolling rows
+export function commonSubsequenceLength(a: string[], b: string[]): number {
+  let previous = new Uint16Array(b.length + 1);
+  let current = new Uint16Array(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 1 : part / whole);
+
+// Compares an enhanced chunk with the text it was made from. Both should already be
+// stitched the same way, so a dropped continuation header isn't reported as missing.
+export function checkFaithfulness(
+  source: string,
+  output: string,
+  stopReason?: string,
+  thresholds: FaithfulnessThresholds = DEFAULT_FAITHFULNESS_THRESHOLDS
+): FaithfulnessCheck {
+  const original = splitTranscript(source);
+  const enhanced = splitTranscript(output);
+  const sourceVocabulary = new Set(original.words);
+  const outputVocabulary = new Set(enhanced.words);
+
+  const sourceContent = [...sourceVocabulary].filter(isContentWord);
+  const outputContent = enhanced.words.filter(isContentWord);
+
+  const remainingHeaders = [...enhanced.headers];
+  const missingHeaders = original.headers.filter(header => {
+    const found = remainingHeaders.indexOf(header);
+    if (found === -1) return true;
+    remainingHeaders.splice(found, 1);
+    return false;
+  });
+
+  const metrics: FaithfulnessMetrics = {
+    retainedRatio: ratio(sourceContent.filter(word => outputVocabulary.has(word)).length, sourceContent.length),
+    novelRatio: 1 - ratio(outputContent.filter(word => sourceVocabulary.has(word)).length, outputContent.length),
+    alignmentRatio: ratio(commonSubsequenceLength(original.words, enhanced.words), enhanced.words.length),
+    missingHeaders,
+    ...(stopReason && { stopReason }),
+  };
+
+  const issues: string[] = [];
+  if (enhanced.words.length === 0) {
+    issues.push('Output is empty');
+  }
+  if (isTruncated(stopReason)) {
+    issues.push(`Output was truncated (${stopReason})`);
+  }
+  if (metrics.retainedRatio < thresholds.minRetainedRatio) {
+    issues.push(`Only ${Math.round(metrics.retainedRatio * 100)}% of content words kept`);
+  }
+  if (metrics.novelRatio > thresholds.maxNovelRatio) {
+    issues.push(`${Math.round(metrics.novelRatio * 100)}% of output words are not in the source`);
+  }
+  if (metrics.alignmentRatio < thresholds.minAlignmentRatio) {
+    issues.push(`Only ${Math.round(metrics.alignmentRatio * 100)}% of output aligns with the source`);
+  }
+  if (missingHeaders.length > 0) {
+    issues.push(`Missing speaker headers: ${missingHeaders.join(', ')}`);
+  }
+
+  // Stitching may have put the speaker header back in front of a preamble
+  const outputLines = output.split(/\r?\n/);
+  const firstLine = outputLines.find((line, i) => line.trim() && !matchSpeakerHeader(outputLines, i)) || '';
+  if (PREAMBLE_PATTERN.test(firstLine.trim())) {
+    issues.push('Output starts with a preamble');
+  }
+
+  return { passed: issues.length === 0, issues, metrics };
+}
+
+export function summarizeFaithfulness(chunks: ChunkFaithfulness[]): FaithfulnessSummary {
+  return {
+    checked: chunks.length,
+    passed: chunks.filter(chunk => chunk.passed).length,
+    retried: chunks.filter(chunk => chunk.attempts > 1).length,
+    fellBack: chunks.filter(chunk => chunk.fellBack).map(chunk => chunk.index),
+    chunks,
+  };
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseGlossary } from '../glossary';
+import { recordEnhancementRun } from '../library';
+import { parseSpeakerNames } from '../speakers';
+import { createSseResponse } from '../sse';
+import { readTranscriptInput } from '../transcript-model';
+import { getUploadStore, readUploadRequest } from '../uploads';
+import { parseProviderOverrides } from './config';
+import { enhanceTranscript } from './pipeline';
+import { getPromptProfile } from './profiles';
+import { createProvider, isProviderConfigured, isProviderId } from './providers';
+import { EnhancementAudio, ProviderId } from './types';
+
+interface EnhanceRequestOptions {
+  defaultProvider: ProviderId;
+  requireAudio?: boolean;
+}
+
+// Shared by the enhancement routes. Audio for audio-capable providers comes from
+// an `uploadId` (see /api/uploads), or an `audioFile` in multipart form data.
+// A `libraryId` files the finished run under that library entry, and `profile`
+// picks the prompt profile (the default one when unset).
+export async function handleEnhanceRequest(
+  request: NextRequest,
+  { defaultProvider, requireAudio = false }: EnhanceRequestOptions
+): Promise<Response> {
+  // An upload sent with this request has no other use, so it is deleted once the
+  // request is done: straight away, or when the stream ends if one was started
+  let oneOffUpload: string | null = null;
+  let streaming = false;
+  const deleteOneOffUpload = async () => {
+    if (oneOffUpload) await getUploadStore().delete(oneOffUpload);
+  };
+
+  try {
+    // A multipart `audioFile` is streamed to disk as an upload, so both ways in
+    // share the upload store's compressed audio
+    const { upload, input } = await readUploadRequest(request, 'audioFile');
+    let audio: EnhancementAudio | undefined;
+
+    if (upload) {
+      if (input.uploadId !== upload.id) oneOffUpload = upload.id;
+      // The upload store keeps the compressed audio, so this doesn't redo ffmpeg
+      const uploaded = await getUploadStore().audio(upload.id);
+      if (uploaded) {
+        audio = { path: uploaded.path, mimeType: uploaded.mimeType };
+      }
+    }
+    
+    if ((!input.transcript && !input.structured_transcript) || (requireAudio && !audio)) {
+      return NextResponse.json(
+        { error: requireAudio ? 'Both transcript and audio file are required' : 'No transcript provided' },
+        { status: 400 }
+      );
+    }
+    
+    const providerId = input.provider ?? defaultProvider;
+    
+    if (!isProviderId(providerId)) {
+      return NextResponse.json(
+        { error: `Unknown enhancement provider: ${providerId}` },
+        { status: 400 }
+      );
+    }
+    
+    const profile = await getPromptProfile(typeof input.profile === 'string' ? input.profile : undefined);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown prompt profile: ${input.profile}` },
+        { status: 400 }
+      );
+    }
+    
+    const transcript = readTranscriptInput(input.structured_transcript, input.transcript);
+    
+    if (!transcript || transcript.segments.length === 0) {
+      return NextResponse.json(
+        { error: 'Could not parse transcript segments' },
+        { status: 400 }
+      );
+    }
+    
+    const provider = createProvider(providerId, parseProviderOverrides(input));
+    
+    if (!isProviderConfigured(providerId)) {
+      return NextResponse.json(
+        { error: `${provider.label} API key not configured` },
+        { status: 500 }
+      );
+    }
+    
+    streaming = true;
+    return createSseResponse(async (emit) => {
+      try {
+        const result = await enhanceTranscript(transcript, provider, {
+          profile,
+          audio,
+          // JSON bodies carry an array, multipart bodies a JSON string
+          glossary: parseGlossary(input.glossary),
+          speakerNames: parseSpeakerNames(input.speakerNames),
+          onProgress: (progress) => emit({ type: 'progress', ...progress }),
+        });
+        
+        if (typeof input.libraryId === 'string') {
+          await recordEnhancementRun(input.libraryId, result);
+        }
+
+        emit({ type: 'complete', ...result });
+      } finally {
+        await deleteOneOffUpload();
+      }
+    });
+    
+  } catch (error) {
+    console.error('Enhancement error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  } finally {
+    if (!streaming) await deleteOneOffUpload();
+  }
+}
@@ -0,0 +1,183 @@
+import { UncertainSpan, findUncertainSpans, formatUncertainSpans } from '../confidence';
+import { Glossary, applyGlossary } from '../glossary';
+import { AudioWindow, configuredPaddingMs, createAudioSlicer, padWindow } from '../media/slice';
+import { UNCERTAIN_PASSAGES_AUDIO_INSTRUCTIONS, UNCERTAIN_PASSAGES_INSTRUCTIONS } from '../prompts';
+import { SpeakerNames } from '../speakers';
+import { Transcript, fromMarkdown, toCaptionWords, toTranscriptSegments } from '../transcript-model';
+import { estimateTokens, parseTimestamp } from '../transcript';
+import { Chunk, ChunkOptions, createChunks, formatChunk, formatChunkRequest, stitchChunk } from './chunking';
+import { ChunkFaithfulness, DEFAULT_FAITHFULNESS_THRESHOLDS, checkFaithfulness, summarizeFaithfulness } from './faithfulness';
+import { PromptProfile, renderPrompt } from './profiles';
+import { runScheduled } from './scheduler';
+import { EnhancementAudio, EnhancementProgress, EnhancementProvider, EnhancementResult } from './types';
+
+// A chunk that fails the faithfulness check is asked for once more before falling back
+const FAITHFULNESS_ATTEMPTS = 2;
+// Most uncertain passages listed per chunk, lowest confidence first
+const MAX_UNCERTAIN_SPANS = 20;
+
+export interface EnhanceOptions {
+  profile: PromptProfile;
+  audio?: EnhancementAudio;
+  glossary?: Glossary;
+  // Names for the transcript's speaker labels, given to the model as context
+  speakerNames?: SpeakerNames;
+  // Chunk sizes; the defaults suit the providers' limits, smaller ones exercise splitting
+  chunking?: ChunkOptions;
+  onProgress?: (progress: EnhancementProgress) => void;
+}
+
+// Spans are matched on text as well as time, since split turns share a timestamp
+function spansForChunk(chunk: Chunk, spans: UncertainSpan[]): UncertainSpan[] {
+  const chunkStart = parseTimestamp(chunk.startTime) - 1000;
+  const text = formatChunk(chunk);
+  return spans
+    .filter(span => span.start >= chunkStart && text.includes(span.text))
+    .sort((a, b) => a.confidence - b.confidence)
+    .slice(0, MAX_UNCERTAIN_SPANS)
+    .sort((a, b) => a.start - b.start);
+}
+
+// The audio a chunk covers: from its first turn to the next chunk's first turn
+// (a turn split across chunks shares one timestamp, so skip to the next later one)
+function chunkWindow(chunks: Chunk[], i: number, transcriptEnd: number): AudioWindow | null {
+  const startMs = parseTimestamp(chunks[i].startTime);
+  if (!Number.isFinite(startMs)) return null;
+
+  const next = chunks.slice(i + 1).map(chunk => parseTimestamp(chunk.startTime)).find(ms => ms > startMs);
+  const endMs = next ?? (transcriptEnd > startMs ? transcriptEnd : undefined);
+  return endMs === undefined ? { startMs } : { startMs, endMs };
+}
+
+export async function enhanceTranscript(
+  transcript: Transcript,
+  provider: EnhancementProvider,
+  { profile, audio, glossary = [], speakerNames = {}, chunking, onProgress = () => {} }: EnhanceOptions
+): Promise<EnhancementResult> {
+  const segments = toTranscriptSegments(transcript);
+  
+  if (segments.length === 0) {
+    throw new Error('Could not parse transcript segments');
+  }
+  
+  // Oversized turns are split at sentence boundaries; each chunk carries its neighbours as context
+  const chunks = createChunks(segments, chunking);
+  const useAudio = provider.supportsAudio && !!audio;
+  const { system, chunkNote } = renderPrompt(profile, { audio: useAudio, glossary, speakerNames, transcript });
+  const thresholds = { ...DEFAULT_FAITHFULNESS_THRESHOLDS, ...profile.faithfulness };
+  // Known wrong forms are fixed deterministically, whatever the model did
+  const finish = (text: string, chunk: Chunk) => applyGlossary(stitchChunk(text, chunk), glossary);
+  
+  onProgress({ completed: 0, total: chunks.length, message: `Starting ${provider.label} enhancement (${Math.min(provider.limits.concurrency, chunks.length)} at a time)...` });
+  
+  const checks: ChunkFaithfulness[] = new Array(chunks.length);
+  const uncertainSpans = findUncertainSpans(transcript);
+  
+  // Each chunk hears only its own stretch of the recording, plus some padding
+  const slicer = useAudio ? createAudioSlicer(audio.path) : null;
+  const transcriptEnd = Math.max(0, ...transcript.segments.map(segment => segment.end));
+  // Pasted Markdown without timestamps leaves every turn at zero; such chunks get the full file
+  const timed = transcript.segments.some(segment => segment.start > 0 || segment.end > 0);
+  const paddingMs = configuredPaddingMs();
+  
+  const chunkAudio = async (i: number): Promise<{ audio: EnhancementAudio; window?: AudioWindow } | null> => {
+    if (!useAudio || !slicer) return null;
+    
+    const window = timed ? chunkWindow(chunks, i, transcriptEnd) : null;
+    if (!window) return { audio };
+    
+    const padded = padWindow(window, paddingMs);
+    try {
+      return { audio: await slicer.slice(padded), window: padded };
+    } catch (error) {
+      console.warn(`Could not cut audio for chunk ${i + 1}, sending the full file:`, error);
+      return { audio };
+    }
+  };
+  
+  // Point the model at words the transcriber was unsure of, ahead of the chunk itself
+  const formatRequest = (chunk: Chunk) => {
+    const spans = spansForChunk(chunk, uncertainSpans);
+    if (spans.length === 0) return formatChunkRequest(chunk);
+    
+    const instructions = useAudio ? UNCERTAIN_PASSAGES_AUDIO_INSTRUCTIONS : UNCERTAIN_PASSAGES_INSTRUCTIONS;
+    return `${instructions}\n\n<uncertain_passages>\n${formatUncertainSpans(spans)}\n</uncertain_passages>\n\n${formatChunkRequest(chunk)}`;
+  };
+  
+  let enhancedChunks: string[];
+  try {
+    enhancedChunks = await runScheduled(chunks, {
+      limits: provider.limits,
+      // The completion is roughly the size of the chunk itself
+      cost: chunk => estimateTokens(system) + estimateTokens(formatRequest(chunk)) + chunk.totalTokens,
+      
+      run: async (chunk, i, charge) => {
+        const requestText = formatRequest(chunk);
+        const chunkInput = await chunkAudio(i);
+        // Tells the model where the chunk falls and, with audio, which part of the recording it is hearing
+        const note = chunkNote({ index: i, total: chunks.length, window: chunkInput?.window });
+        const text = note ? `${note}\n\n${requestText}` : requestText;
+        
+        const source = finish(formatChunk(chunk), chunk);
+        
+        for (let attempt = 1; ; attempt++) {
+          if (attempt > 1) await charge();
+          const response = await provider.enhance({ system, text, audio: chunkInput?.audio });
+          const enhanced = finish(response.text, chunk);
+          const check = checkFaithfulness(source, enhanced, response.stopReason, thresholds);
+          
+          if (check.passed || attempt >= FAITHFULNESS_ATTEMPTS) {
+            checks[i] = { index: i, attempts: attempt, fellBack: !check.passed, ...check };
+            if (!check.passed) {
+              console.warn(`Chunk ${i + 1} from ${provider.label} failed the faithfulness check, keeping the original:`, check.issues);
+            }
+            return check.passed ? enhanced : source;
+          }
+          
+          console.warn(`Chunk ${i + 1} from ${provider.label} failed the faithfulness check, retrying:`, check.issues);
+        }
+      },
+      
+      fallback: (chunk, i, error) => {
+        console.error(`Error enhancing chunk ${i + 1} with ${provider.label}:`, error);
+        checks[i] = {
+          index: i,
+          passed: false,
+          attempts: 1,
+          fellBack: true,
+          issues: [`Request failed: ${error instanceof Error ? error.message : 'unknown error'}`],
+        };
+        // Fallback to original chunk if enhancement fails
+        return finish(formatChunk(chunk), chunk);
+      },
+      
+      // Chunks finish out of order; progress is reported in order so clients can append
+      onResult: (text, i) => {
+        onProgress({
+          completed: i + 1,
+          total: chunks.length,
+          message: `Finished chunk ${i + 1}/${chunks.length}`,
+          chunk: { index: i, text }
+        });
+      },
+    });
+  } finally {
+    await slicer?.close();
+  }
+  
+  // Each piece is already stitched against its neighbours, so a plain join keeps headers right
+  const enhancedTranscript = enhancedChunks.filter(Boolean).join('\n\n');
+  
+  return {
+    enhanced_transcript: enhancedTranscript,
+    // Word timings are carried over from the source so the output can be captioned
+    structured_transcript: fromMarkdown(enhancedTranscript, toCaptionWords(transcript)),
+    chunks_processed: chunks.length,
+    faithfulness: summarizeFaithfulness(checks),
+    total_segments: segments.length,
+    provider: provider.id,
+    model: provider.config.model,
+    prompt_profile: profile.id,
+    prompt_version: String(profile.version),
+  };
+}
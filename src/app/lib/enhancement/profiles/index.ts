@@ -0,0 +1,220 @@
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { Glossary, formatGlossaryPrompt } from '../../glossary';
+import { AudioWindow } from '../../media/slice';
+import { SpeakerNames } from '../../speakers';
+import { TemplateValues, renderTemplate } from '../../template';
+import { formatTimestamp } from '../../transcript';
+import { TRANSCRIPT_SCHEMA_VERSION, Transcript } from '../../transcript-model';
+import { FaithfulnessThresholds } from '../faithfulness';
+import readable from './readable.json';
+import standard from './standard.json';
+import verbatim from './verbatim.json';
+
+export const DEFAULT_PROMPT_PROFILE = 'standard';
+
+export interface PromptExample {
+  input: string;
+  output: string;
+}
+
+// A named enhancement prompt. `system` and `chunk` are templates (see lib/template.ts);
+// bump `version` whenever either changes, since it is recorded with every output.
+export interface PromptProfile {
+  id: string;
+  version: number;
+  label: string;
+  description: string;
+  // Sent once per request. Values: audio, glossary, speakers, examples
+  system: string;
+  // Put in front of each chunk, when it renders to anything. Adds chunk.number,
+  // chunk.total, chunk.position (first, middle, last or only), chunk.first,
+  // chunk.last and window (window.start, window.end) when the chunk has its own audio
+  chunk: string;
+  examples: PromptExample[];
+  // Limits for the faithfulness check, for profiles that edit more than a cleanup does
+  faithfulness?: Partial<FaithfulnessThresholds>;
+}
+
+export type PromptProfileInfo = Pick<PromptProfile, 'id' | 'version' | 'label' | 'description'>;
+
+export interface PromptContext {
+  audio: boolean;
+  glossary: Glossary;
+  speakerNames: SpeakerNames;
+  transcript: Transcript;
+}
+
+export interface ChunkContext {
+  index: number;
+  total: number;
+  window?: AudioWindow;
+}
+
+export class PromptProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptProfileError';
+  }
+}
+
+const BUILT_IN_PROFILES = [standard, verbatim, readable] as PromptProfile[];
+const THRESHOLD_KEYS: (keyof FaithfulnessThresholds)[] = ['minRetainedRatio', 'maxNovelRatio', 'minAlignmentRatio'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function formatExamples(examples: PromptExample[]): string {
+  return examples
+    .map(example => `Example transformation:\n\nINPUT:\n${example.input}\n\nOUTPUT:\n${example.output}`)
+    .join('\n\n');
+}
+
+// One line per speaker that has a name, keyed by the label used in the transcript headers
+function formatSpeakers(transcript: Transcript, speakerNames: SpeakerNames): string {
+  const names = new Map(transcript.speakers.map(speaker => [speaker.id, speaker.name]));
+  return Array.from(new Set(transcript.segments.map(segment => segment.speaker)))
+    .map(label => [label, (speakerNames[label] || names.get(label) || '').trim()])
+    .filter(([, name]) => name)
+    .map(([label, name]) => `- ${label}: ${name}`)
+    .join('\n');
+}
+
+function systemValues(profile: PromptProfile, context: PromptContext): TemplateValues {
+  return {
+    audio: context.audio,
+    glossary: context.glossary.length > 0 ? formatGlossaryPrompt(context.glossary) : '',
+    speakers: formatSpeakers(context.transcript, context.speakerNames),
+    examples: formatExamples(profile.examples),
+  };
+}
+
+function chunkValues(base: TemplateValues, { index, total, window }: ChunkContext): TemplateValues {
+  const first = index === 0;
+  const last = index === total - 1;
+  return {
+    ...base,
+    chunk: {
+      number: index + 1,
+      total,
+      position: first && last ? 'only' : first ? 'first' : last ? 'last' : 'middle',
+      first,
+      last,
+    },
+    window: window
+      ? {
+          start: formatTimestamp(window.startMs),
+          end: window.endMs !== undefined ? formatTimestamp(window.endMs) : 'the end',
+        }
+      : null,
+  };
+}
+
+// The system prompt, and a function giving the note for each chunk ('' for none)
+export function renderPrompt(profile: PromptProfile, context: PromptContext): {
+  system: string;
+  chunkNote: (chunk: ChunkContext) => string;
+} {
+  const values = systemValues(profile, context);
+  return {
+    system: renderTemplate(profile.system, values),
+    chunkNote: chunk => renderTemplate(profile.chunk, chunkValues(values, chunk)).trim(),
+  };
+}
+
+// Checks a profile read from disk, including that both templates render with
+// every value set and with none, so a broken profile fails when it is loaded
+export function parsePromptProfile(input: unknown): PromptProfile {
+  const value = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  if (!isString(value.id) || !/^[\w-]+$/.test(value.id)) {
+    throw new PromptProfileError('Prompt profile needs an id made of letters, digits, dashes and underscores');
+  }
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    throw new PromptProfileError(`Prompt profile ${value.id} needs a whole-number version`);
+  }
+  if (!isString(value.system) || !value.system.trim()) {
+    throw new PromptProfileError(`Prompt profile ${value.id} has no system prompt`);
+  }
+
+  const examples = Array.isArray(value.examples) ? value.examples : [];
+  if (!examples.every(example => isString(example?.input) && isString(example?.output))) {
+    throw new PromptProfileError(`Prompt profile ${value.id} has an example without input and output`);
+  }
+
+  const faithfulness = value.faithfulness as Record<string, unknown> | undefined;
+  if (faithfulness !== undefined && (
+    !faithfulness || typeof faithfulness !== 'object' ||
+    Object.entries(faithfulness).some(([key, limit]) =>
+      !THRESHOLD_KEYS.includes(key as keyof FaithfulnessThresholds) || typeof limit !== 'number' || limit < 0 || limit > 1)
+  )) {
+    throw new PromptProfileError(`Prompt profile ${value.id} has invalid faithfulness limits`);
+  }
+
+  const profile: PromptProfile = {
+    id: value.id,
+    version: value.version,
+    label: isString(value.label) && value.label.trim() ? value.label : value.id,
+    description: isString(value.description) ? value.description : '',
+    system: value.system,
+    chunk: isString(value.chunk) ? value.chunk : '',
+    examples: examples.map(({ input, output }) => ({ input, output })),
+    ...(faithfulness && { faithfulness: faithfulness as Partial<FaithfulnessThresholds> }),
+  };
+
+  const transcript: Transcript = {
+    version: TRANSCRIPT_SCHEMA_VERSION,
+    speakers: [],
+    segments: [{ speaker: 'A', start: 0, end: 1000, paragraphs: [{ text: 'Hello.', start: 0, end: 1000 }] }],
+  };
+  try {
+    for (const set of [true, false]) {
+      const { chunkNote } = renderPrompt(profile, {
+        audio: set,
+        glossary: set ? [{ term: 'Term', misrecognitions: [] }] : [],
+        speakerNames: set ? { A: 'Name' } : {},
+        transcript,
+      });
+      chunkNote({ index: 0, total: set ? 2 : 1, window: set ? { startMs: 0, endMs: 1000 } : undefined });
+    }
+  } catch (error) {
+    throw new PromptProfileError(`Prompt profile ${profile.id}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return profile;
+}
+
+// Profiles in PROMPT_PROFILES_DIR, one JSON file each, add to the built-in ones
+// or replace one with the same id. The directory is read on every call so a
+// new profile can be tried without restarting.
+async function loadProfiles(): Promise<Map<string, PromptProfile>> {
+  const profiles = new Map(BUILT_IN_PROFILES.map(profile => [profile.id, profile]));
+  const directory = process.env.PROMPT_PROFILES_DIR;
+  if (!directory) return profiles;
+
+  let files: string[];
+  try {
+    files = (await readdir(directory)).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    console.error(`Could not read prompt profiles from ${directory}:`, error);
+    return profiles;
+  }
+
+  for (const file of files) {
+    try {
+      const profile = parsePromptProfile(JSON.parse(await readFile(path.join(directory, file), 'utf-8')));
+      profiles.set(profile.id, profile);
+    } catch (error) {
+      console.error(`Skipping prompt profile ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return profiles;
+}
+
+export async function getPromptProfile(id: string = DEFAULT_PROMPT_PROFILE): Promise<PromptProfile | null> {
+  return (await loadProfiles()).get(id) ?? null;
+}
+
+export async function listPromptProfiles(): Promise<PromptProfileInfo[]> {
+  return Array.from((await loadProfiles()).values())
+    .map(({ id, version, label, description }) => ({ id, version, label, description }));
+}
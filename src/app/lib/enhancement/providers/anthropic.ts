@@ -0,0 +1,59 @@
+import { resolveProviderConfig, resolveProviderLimits } from '../config';
+import { providerErrorFromResponse } from '../errors';
+import { EnhancementProvider, ProviderOverrides, ProviderRequest, ProviderResponse } from '../types';
+
+export function isAnthropicConfigured(): boolean {
+  return !!process.env.CLAUDE_API_KEY;
+}
+
+export function createAnthropicProvider(overrides?: ProviderOverrides): EnhancementProvider {
+  const config = resolveProviderConfig('ANTHROPIC', {
+    model: 'claude-sonnet-4-5-20250929',
+    maxTokens: 4000,
+  }, overrides);
+  const baseUrl = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com';
+
+  return {
+    id: 'anthropic',
+    label: 'Claude',
+    config,
+    supportsAudio: false,
+    limits: resolveProviderLimits('ANTHROPIC', { concurrency: 4, contextTokens: 200_000 }),
+
+    async enhance({ system, text }: ProviderRequest): Promise<ProviderResponse> {
+      const claudeApiKey = process.env.CLAUDE_API_KEY;
+      
+      if (!claudeApiKey) {
+        throw new Error('Claude API key not configured');
+      }
+      
+      const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': claudeApiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: config.maxTokens,
+          ...(config.temperature !== undefined && { temperature: config.temperature }),
+          system,
+          messages: [
+            {
+              role: 'user',
+              content: text
+            }
+          ]
+        })
+      });
+      
+      if (!response.ok) {
+        throw providerErrorFromResponse('Claude', response);
+      }
+      
+      const result = await response.json();
+      return { text: result.content[0].text, stopReason: result.stop_reason };
+    },
+  };
+}
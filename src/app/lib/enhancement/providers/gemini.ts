@@ -0,0 +1,110 @@
+import { readFile, stat } from 'fs/promises';
+import { GoogleGenAI, createUserContent, createPartFromUri } from '@google/genai';
+import { resolveProviderConfig, resolveProviderLimits } from '../config';
+import { ProviderRequestError, parseRetryAfter } from '../errors';
+import { EnhancementAudio, EnhancementProvider, ProviderOverrides, ProviderRequest, ProviderResponse } from '../types';
+
+// Audio under this size is sent inline; larger files go through the Files API
+const INLINE_AUDIO_LIMIT_MB = 20;
+
+// The SDK only reports the HTTP status inside its error message, followed by the
+// response body; a rate limit's body says how long to wait in RetryInfo ("retryDelay": "37s")
+function toProviderError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  const status = error.message.match(/got status: (\d+)/);
+  if (!status) return error;
+
+  const retryDelay = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return new ProviderRequestError(`Gemini API error: ${status[1]}`, Number(status[1]), parseRetryAfter(retryDelay?.[1] ?? null));
+}
+
+type AudioPart = { inlineData: { mimeType: string; data: string } } | { uri: string; mimeType: string };
+
+export function isGeminiConfigured(): boolean {
+  return !!process.env.GEMINI_API_KEY;
+}
+
+export function createGeminiProvider(overrides?: ProviderOverrides): EnhancementProvider {
+  const config = resolveProviderConfig('GEMINI', {
+    model: 'gemini-2.5-pro-preview-05-06',
+    // Gemini 2.5 counts thinking against this limit, so leave the model's full budget
+    maxTokens: 65536,
+  }, overrides);
+
+  let ai: GoogleGenAI | null = null;
+  // Each audio file is encoded or uploaded once, however many chunks use it
+  const preparedAudio = new Map<string, Promise<AudioPart>>();
+
+  const client = () => {
+    if (!process.env.GEMINI_API_KEY) {
+      throw new Error('Gemini API key not configured');
+    }
+    ai ??= new GoogleGenAI({
+      apiKey: process.env.GEMINI_API_KEY,
+      ...(process.env.GEMINI_BASE_URL && { httpOptions: { baseUrl: process.env.GEMINI_BASE_URL } }),
+    });
+    return ai;
+  };
+
+  const prepareAudio = (audio: EnhancementAudio): Promise<AudioPart> => {
+    let prepared = preparedAudio.get(audio.path);
+    if (!prepared) {
+      prepared = (async (): Promise<AudioPart> => {
+        const mimeType = audio.mimeType || 'audio/mpeg';
+        
+        if ((await stat(audio.path)).size / (1024 * 1024) < INLINE_AUDIO_LIMIT_MB) {
+          return { inlineData: { mimeType, data: (await readFile(audio.path)).toString('base64') } };
+        }
+        
+        // The SDK streams a file path from disk
+        const uploadedFile = await client().files.upload({
+          file: audio.path,
+          config: { mimeType },
+        });
+        return { uri: uploadedFile.uri!, mimeType: uploadedFile.mimeType! };
+      })();
+      preparedAudio.set(audio.path, prepared);
+    }
+    return prepared;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    config,
+    supportsAudio: true,
+    // Every request carries the audio, so keep fewer in flight
+    limits: resolveProviderLimits('GEMINI', { concurrency: 2, contextTokens: 1_000_000 }),
+
+    async enhance({ system, text, audio }: ProviderRequest): Promise<ProviderResponse> {
+      const prompt = `${system}\n\n${text}`;
+      const generationConfig = {
+        maxOutputTokens: config.maxTokens,
+        ...(config.temperature !== undefined && { temperature: config.temperature }),
+      };
+      
+      let contents;
+      
+      if (!audio) {
+        contents = prompt;
+      } else {
+        const part = await prepareAudio(audio);
+        contents = 'inlineData' in part
+          // Use inline data for smaller files
+          ? [{ text: prompt }, part]
+          // Use file upload for larger files
+          : createUserContent([createPartFromUri(part.uri, part.mimeType), prompt]);
+      }
+      
+      const response = await client().models.generateContent({
+        model: config.model,
+        contents,
+        config: generationConfig,
+      }).catch(error => {
+        throw toProviderError(error);
+      });
+      
+      return { text: response.text || '', stopReason: response.candidates?.[0]?.finishReason };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { EnhancementProvider, ProviderId, ProviderInfo, ProviderOverrides } from '../types';
+import { createAnthropicProvider, isAnthropicConfigured } from './anthropic';
+import { createGeminiProvider, isGeminiConfigured } from './gemini';
+import { createOpenAICompatibleProvider, isOpenAICompatibleConfigured } from './openai-compatible';
+
+const PROVIDERS: Record<ProviderId, {
+  create: (overrides?: ProviderOverrides) => EnhancementProvider;
+  isConfigured: () => boolean;
+}> = {
+  anthropic: { create: createAnthropicProvider, isConfigured: isAnthropicConfigured },
+  gemini: { create: createGeminiProvider, isConfigured: isGeminiConfigured },
+  openai: { create: createOpenAICompatibleProvider, isConfigured: isOpenAICompatibleConfigured },
+};
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && value in PROVIDERS;
+}
+
+export function createProvider(id: ProviderId, overrides?: ProviderOverrides): EnhancementProvider {
+  return PROVIDERS[id].create(overrides);
+}
+
+export function isProviderConfigured(id: ProviderId): boolean {
+  return PROVIDERS[id].isConfigured();
+}
+
+export function listConfiguredProviders(): ProviderInfo[] {
+  return (Object.keys(PROVIDERS) as ProviderId[])
+    .filter(isProviderConfigured)
+    .map(id => {
+      const { label, config, supportsAudio } = createProvider(id);
+      return { id, label, model: config.model, supportsAudio };
+    });
+}
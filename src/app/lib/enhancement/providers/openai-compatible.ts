@@ -0,0 +1,55 @@
+import { resolveProviderConfig, resolveProviderLimits } from '../config';
+import { providerErrorFromResponse } from '../errors';
+import { EnhancementProvider, ProviderOverrides, ProviderRequest, ProviderResponse } from '../types';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local
+// llama.cpp / Ollama server via OPENAI_BASE_URL (e.g. http://localhost:11434/v1)
+export function isOpenAICompatibleConfigured(): boolean {
+  return !!(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL);
+}
+
+export function createOpenAICompatibleProvider(overrides?: ProviderOverrides): EnhancementProvider {
+  const config = resolveProviderConfig('OPENAI', {
+    model: 'gpt-4o',
+    maxTokens: 4000,
+  }, overrides);
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    config,
+    supportsAudio: false,
+    limits: resolveProviderLimits('OPENAI', { concurrency: 4, contextTokens: 128_000 }),
+
+    async enhance({ system, text }: ProviderRequest): Promise<ProviderResponse> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      // Local servers usually run without a key
+      if (process.env.OPENAI_API_KEY) {
+        headers['Authorization'] = `Bearer ${process.env.OPENAI_API_KEY}`;
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: config.maxTokens,
+          ...(config.temperature !== undefined && { temperature: config.temperature }),
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: text },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw providerErrorFromResponse('OpenAI-compatible', response);
+      }
+
+      const result = await response.json();
+      const choice = result.choices?.[0];
+      return { text: choice?.message?.content || '', stopReason: choice?.finish_reason };
+    },
+  };
+}
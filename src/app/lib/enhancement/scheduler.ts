@@ -0,0 +1,115 @@
+import { ProviderRequestError, isRetryableError } from './errors';
+import { ProviderLimits } from './types';
+
+const TOKEN_WINDOW_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+
+export interface ScheduleOptions<T, R> {
+  limits: ProviderLimits;
+  // Estimated tokens a task's request will use, charged against the per-minute budget
+  cost: (item: T) => number;
+  // A task that sends the request again of its own accord (say, after checking the answer)
+  // calls `charge` first, so the repeat waits for budget like the first request did
+  run: (item: T, index: number, charge: () => Promise<void>) => Promise<R>;
+  // Produces a result for a task that failed for good, so one bad chunk doesn't sink the run
+  fallback: (item: T, index: number, error: unknown) => R;
+  // Called once per task, strictly in input order, as soon as all earlier tasks are done
+  onResult?: (result: R, index: number) => void;
+  maxRetries?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with equal jitter: half the delay is fixed, half random
+export function backoffDelay(attempt: number): number {
+  const cap = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return cap / 2 + Math.random() * (cap / 2);
+}
+
+// Rolling one-minute window of spent tokens. A task bigger than the whole budget still
+// runs once the window is empty rather than waiting forever.
+class TokenBudget {
+  private spent: { at: number; tokens: number }[] = [];
+
+  constructor(private readonly tokensPerMinute?: number) {}
+
+  async acquire(tokens: number): Promise<void> {
+    if (!this.tokensPerMinute) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.spent = this.spent.filter(entry => now - entry.at < TOKEN_WINDOW_MS);
+      const used = this.spent.reduce((sum, entry) => sum + entry.tokens, 0);
+
+      if (this.spent.length === 0 || used + tokens <= this.tokensPerMinute) {
+        this.spent.push({ at: now, tokens });
+        return;
+      }
+
+      await sleep(this.spent[0].at + TOKEN_WINDOW_MS - now);
+    }
+  }
+}
+
+export async function runScheduled<T, R>(items: T[], options: ScheduleOptions<T, R>): Promise<R[]> {
+  const { limits, cost, run, fallback, onResult = () => {}, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const budget = new TokenBudget(limits.tokensPerMinute);
+  const results: R[] = new Array(items.length);
+  const done: boolean[] = new Array(items.length).fill(false);
+  let nextToStart = 0;
+  let nextToEmit = 0;
+  // A rate limit on one request pauses every worker, not just the one that hit it
+  let pausedUntil = 0;
+
+  const waitForPause = async () => {
+    while (Date.now() < pausedUntil) {
+      await sleep(pausedUntil - Date.now());
+    }
+  };
+
+  const attempt = async (item: T, index: number): Promise<R> => {
+    const charge = async () => {
+      await waitForPause();
+      await budget.acquire(cost(item));
+    };
+
+    for (let retry = 0; ; retry++) {
+      await charge();
+
+      try {
+        return await run(item, index, charge);
+      } catch (error) {
+        if (!isRetryableError(error) || retry >= maxRetries) throw error;
+
+        const delay = (error as ProviderRequestError).retryAfterMs ?? backoffDelay(retry);
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+        console.warn(`Request ${index + 1} hit ${(error as ProviderRequestError).status}, retrying in ${Math.round(delay)}ms`);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (nextToStart < items.length) {
+      const index = nextToStart++;
+
+      try {
+        results[index] = await attempt(items[index], index);
+      } catch (error) {
+        results[index] = fallback(items[index], index, error);
+      }
+
+      done[index] = true;
+      while (nextToEmit < items.length && done[nextToEmit]) {
+        onResult(results[nextToEmit], nextToEmit);
+        nextToEmit++;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limits.concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,80 @@
+import type { Transcript } from '../transcript-model';
+import type { FaithfulnessSummary } from './faithfulness';
+
+export type ProviderId = 'anthropic' | 'gemini' | 'openai';
+
+export interface ProviderConfig {
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export type ProviderOverrides = Partial<ProviderConfig>;
+
+export interface ProviderLimits {
+  // Chunk requests allowed in flight at once
+  concurrency: number;
+  // Estimated prompt + completion tokens per rolling minute; unlimited when unset
+  tokensPerMinute?: number;
+  // The model's context window, for requests that send a whole transcript at once
+  contextTokens: number;
+}
+
+// Audio stays on disk; providers read it only to build the request they send
+export interface EnhancementAudio {
+  path: string;
+  mimeType: string;
+}
+
+export interface ProviderRequest {
+  system: string;
+  text: string;
+  audio?: EnhancementAudio;
+}
+
+export interface ProviderResponse {
+  text: string;
+  // Provider-specific reason the model stopped, e.g. "end_turn" or "max_tokens"
+  stopReason?: string;
+}
+
+export interface EnhancementProvider {
+  id: ProviderId;
+  label: string;
+  config: ProviderConfig;
+  supportsAudio: boolean;
+  limits: ProviderLimits;
+  enhance(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  model: string;
+  supportsAudio: boolean;
+}
+
+export interface EnhancementProgress {
+  completed: number;
+  total: number;
+  message: string;
+  // Set once a chunk is finished, so clients can show partial results
+  chunk?: {
+    index: number;
+    text: string;
+  };
+}
+
+export interface EnhancementResult {
+  enhanced_transcript: string;
+  structured_transcript: Transcript;
+  chunks_processed: number;
+  // Per-chunk checks that the model cleaned the text rather than rewriting it
+  faithfulness: FaithfulnessSummary;
+  total_segments: number;
+  provider: ProviderId;
+  model: string;
+  // Which prompt profile, and which revision of it, produced this output
+  prompt_profile: string;
+  prompt_version: string;
+}
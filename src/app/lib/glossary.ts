@@ -0,0 +1,109 @@
+import { matchSpeakerHeader } from './transcript';
+
+export interface GlossaryEntry {
+  // The preferred spelling, e.g. "Dwarkesh"
+  term: string;
+  // Known wrong forms the transcriber or the enhancer produce, e.g. "Dwar cash"
+  misrecognitions: string[];
+}
+
+export type Glossary = GlossaryEntry[];
+
+// AssemblyAI accepts at most this many boosted phrases, of up to six words each
+const MAX_WORD_BOOST = 1000;
+const MAX_BOOST_WORDS = 6;
+
+function cleanTerm(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+}
+
+// Accepts a glossary as parsed JSON or a JSON string, dropping anything malformed
+export function parseGlossary(input: unknown): Glossary {
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(input)) return [];
+
+  return input.flatMap((entry): Glossary => {
+    const term = cleanTerm(entry?.term);
+    if (!term) return [];
+
+    const misrecognitions = Array.isArray(entry.misrecognitions)
+      ? entry.misrecognitions.map(cleanTerm).filter((wrong: string) => wrong && wrong !== term)
+      : [];
+    return [{ term, misrecognitions }];
+  });
+}
+
+// One entry per line: "Term" or "Term: wrong form, other wrong form"
+export function parseGlossaryText(text: string): Glossary {
+  return parseGlossary(
+    text.split(/\r?\n/).map(line => {
+      // Only the first colon separates the term, so a wrong form may contain one
+      const at = line.indexOf(':');
+      const [term, wrong] = at < 0 ? [line, ''] : [line.slice(0, at), line.slice(at + 1)];
+      return { term, misrecognitions: wrong.split(',') };
+    })
+  );
+}
+
+export function formatGlossaryText(glossary: Glossary): string {
+  return glossary
+    .map(({ term, misrecognitions }) => (misrecognitions.length > 0 ? `${term}: ${misrecognitions.join(', ')}` : term))
+    .join('\n');
+}
+
+export function toWordBoost(glossary: Glossary): string[] {
+  return glossary
+    .map(entry => entry.term)
+    .filter(term => term.split(' ').length <= MAX_BOOST_WORDS)
+    .slice(0, MAX_WORD_BOOST);
+}
+
+// Custom spelling only replaces with a single word, so multi-word terms are left to
+// word boost here and fixed by applyGlossary after enhancement
+export function toCustomSpelling(glossary: Glossary): { from: string[]; to: string }[] {
+  return glossary
+    .filter(entry => entry.misrecognitions.length > 0 && !entry.term.includes(' '))
+    .map(entry => ({ from: entry.misrecognitions, to: entry.term }));
+}
+
+// Prompt section listing the terms, for the enhancement system prompt
+export function formatGlossaryPrompt(glossary: Glossary): string {
+  return glossary
+    .map(({ term, misrecognitions }) =>
+      misrecognitions.length > 0 ? `- ${term} (may appear as: ${misrecognitions.join(', ')})` : `- ${term}`
+    )
+    .join('\n');
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Deterministic pass replacing known wrong forms with the preferred spelling.
+// Whole words only, case-insensitive; speaker header lines are left alone.
+export function applyGlossary(text: string, glossary: Glossary): string {
+  const replacements = glossary
+    .flatMap(({ term, misrecognitions }) => misrecognitions.map(wrong => ({ wrong, term })))
+    // Longest first, so "Dwar cash podcast" wins over "Dwar cash"
+    .sort((a, b) => b.wrong.length - a.wrong.length);
+
+  if (replacements.length === 0) return text;
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${replacements.map(({ wrong }) => escapeRegExp(wrong).replace(/ /g, '\\s+')).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+  const lookup = new Map(replacements.map(({ wrong, term }) => [wrong.toLowerCase(), term]));
+
+  return text
+    .split('\n')
+    .map((line, i, lines) => (matchSpeakerHeader(lines, i)
+      ? line
+      : line.replace(pattern, match => lookup.get(match.replace(/\s+/g, ' ').toLowerCase()) ?? match)))
+    .join('\n');
+}
@@ -0,0 +1,94 @@
+import { enhanceTranscript } from '../enhancement/pipeline';
+import { DEFAULT_PROMPT_PROFILE, PromptProfile, getPromptProfile } from '../enhancement/profiles';
+import { createProvider, listConfiguredProviders } from '../enhancement/providers';
+import { EnhancementAudio, EnhancementResult, ProviderId } from '../enhancement/types';
+import { Glossary } from '../glossary';
+import { recordEnhancementRun } from '../library';
+import { Transcript } from '../transcript-model';
+import { EnhancementState, JobStore } from './types';
+
+async function runEnhancement(
+  store: JobStore,
+  jobId: string,
+  providerId: ProviderId,
+  transcript: Transcript,
+  profile: PromptProfile,
+  audio?: EnhancementAudio,
+  glossary: Glossary = []
+): Promise<void> {
+  const setState = (state: EnhancementState) =>
+    store.update(jobId, job => ({ enhancements: { ...job.enhancements, [providerId]: state } }));
+
+  let result: EnhancementResult;
+  try {
+    result = await enhanceTranscript(transcript, createProvider(providerId), {
+      profile,
+      audio,
+      glossary,
+      onProgress: ({ completed, total }) => {
+        // Progress is best effort; a failed write shouldn't stop the enhancement
+        setState({ status: 'running', completed, total }).catch(error => {
+          console.error(`Job ${jobId} ${providerId} progress update error:`, error);
+        });
+      },
+    });
+  } catch (error) {
+    console.error(`Job ${jobId} ${providerId} enhancement error:`, error);
+    await setState({
+      status: 'error',
+      completed: 0,
+      total: 0,
+      error: error instanceof Error ? error.message : 'Enhancement failed',
+    });
+    return;
+  }
+
+  // The result is still shown with the job if the library can't file it
+  try {
+    await recordEnhancementRun(jobId, result);
+  } catch (error) {
+    console.error(`Job ${jobId} ${providerId} library record error:`, error);
+  }
+
+  await setState({
+    status: 'completed',
+    completed: result.chunks_processed,
+    total: result.chunks_processed,
+    result,
+  });
+}
+
+// Kicks off the same enhancements the page used to start itself, for every
+// provider that is configured on this server. Audio-capable providers only
+// run when the job kept its audio.
+export async function startAutoEnhancements(store: JobStore, jobId: string, transcript: Transcript): Promise<void> {
+  const job = await store.get(jobId);
+  // A profile removed since the job was created falls back to the default
+  const profile = await getPromptProfile(job?.promptProfile) ?? await getPromptProfile(DEFAULT_PROMPT_PROFILE);
+
+  if (!profile) {
+    console.error(`Job ${jobId} enhancements skipped: no ${job?.promptProfile ?? DEFAULT_PROMPT_PROFILE} or ${DEFAULT_PROMPT_PROFILE} prompt profile`);
+    return;
+  }
+
+  const audioPath = await store.audioFile(jobId);
+  const audio = job && audioPath ? { path: audioPath, mimeType: job.audioMimeType || '' } : undefined;
+
+  const ids = listConfiguredProviders()
+    .filter(provider => !provider.supportsAudio || audio)
+    .map(provider => provider.id);
+
+  // Mark every enhancement as running before returning, so pollers know to keep waiting
+  await store.update(jobId, current => ({
+    enhancements: {
+      ...current.enhancements,
+      ...Object.fromEntries(ids.map(id => [id, { status: 'running', completed: 0, total: 0 }])),
+    },
+  }));
+
+  for (const id of ids) {
+    void runEnhancement(store, jobId, id, transcript, profile, audio, job?.glossary).catch(error => {
+      console.error(`Job ${jobId} ${id} could not record its enhancement state:`, error);
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JobPatch, JobStore, TranscriptionJob } from './types';
+
+// Job ids are generated server-side, but never let one escape the directory
+const JOB_ID_PATTERN = /^[\w-]+$/;
+
+export class FileJobStore implements JobStore {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private directory: string) {}
+
+  private jobPath(id: string, extension: string = 'json'): string {
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid job id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.${extension}`);
+  }
+
+  // Serialise read-modify-write cycles per job so concurrent updates aren't lost
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.locks.set(id, next);
+    next.finally(() => {
+      if (this.locks.get(id) === next) {
+        this.locks.delete(id);
+      }
+    }).catch(() => {});
+    return next;
+  }
+
+  private async write(job: TranscriptionJob): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temp file first so a crash never leaves a half-written job
+    const target = this.jobPath(job.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job, null, 2));
+    await fs.rename(temp, target);
+  }
+
+  async create(job: TranscriptionJob): Promise<void> {
+    await this.write(job);
+  }
+
+  async get(id: string): Promise<TranscriptionJob | null> {
+    if (!JOB_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.jobPath(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, patch: JobPatch | ((job: TranscriptionJob) => JobPatch)): Promise<TranscriptionJob> {
+    return this.withLock(id, async () => {
+      const job = await this.get(id);
+      if (!job) {
+        throw new Error(`Job not found: ${id}`);
+      }
+
+      const changes = typeof patch === 'function' ? patch(job) : patch;
+      const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  // A hard link costs nothing and outlives the upload; across filesystems it's a copy
+  async saveAudioFile(id: string, sourcePath: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.jobPath(id, 'audio');
+    await fs.rm(target, { force: true });
+
+    try {
+      await fs.link(sourcePath, target);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await fs.copyFile(sourcePath, target);
+    }
+  }
+
+  async audioFile(id: string): Promise<string | null> {
+    const audioPath = this.jobPath(id, 'audio');
+    try {
+      await fs.access(audioPath);
+      return audioPath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteAudio(id: string): Promise<void> {
+    await fs.rm(this.jobPath(id, 'audio'), { force: true });
+  }
+}
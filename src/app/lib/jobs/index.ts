@@ -0,0 +1,19 @@
+import path from 'path';
+import { FileJobStore } from './file-store';
+import { MemoryJobStore } from './memory-store';
+import { JobStore } from './types';
+
+export * from './types';
+
+const globalForJobs = globalThis as unknown as { jobStore?: JobStore };
+
+// JOB_STORE=memory keeps jobs in the server process only; the default file
+// store survives restarts so unfinished jobs can be resumed
+export function getJobStore(): JobStore {
+  if (!globalForJobs.jobStore) {
+    globalForJobs.jobStore = process.env.JOB_STORE === 'memory'
+      ? new MemoryJobStore()
+      : new FileJobStore(process.env.JOB_STORE_DIR || path.join(process.cwd(), '.data', 'jobs'));
+  }
+  return globalForJobs.jobStore;
+}
@@ -0,0 +1,53 @@
+import { copyFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { JobPatch, JobStore, TranscriptionJob } from './types';
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, TranscriptionJob>();
+  // Audio is too big to hold in memory, so even this store keeps it in a temp directory
+  private audio = new Map<string, string>();
+  private directory: Promise<string> | null = null;
+
+  private async audioPath(id: string): Promise<string> {
+    this.directory ??= mkdtemp(path.join(tmpdir(), 'transcribe-jobs-'));
+    const audioPath = path.join(await this.directory, `${id}.audio`);
+    this.audio.set(id, audioPath);
+    return audioPath;
+  }
+
+  async create(job: TranscriptionJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<TranscriptionJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(id: string, patch: JobPatch | ((job: TranscriptionJob) => JobPatch)): Promise<TranscriptionJob> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+
+    const changes = typeof patch === 'function' ? patch({ ...job }) : patch;
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    this.jobs.set(id, updated);
+    return { ...updated };
+  }
+
+  async saveAudioFile(id: string, sourcePath: string): Promise<void> {
+    await copyFile(sourcePath, await this.audioPath(id));
+  }
+
+  async audioFile(id: string): Promise<string | null> {
+    return this.audio.get(id) || null;
+  }
+
+  async deleteAudio(id: string): Promise<void> {
+    const audioPath = this.audio.get(id);
+    this.audio.delete(id);
+    if (audioPath) await rm(audioPath, { force: true });
+  }
+}
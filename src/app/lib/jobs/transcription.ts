@@ -0,0 +1,413 @@
+import { openAsBlob } from 'fs';
+import { WebhookOptions } from '../assemblyai';
+import { Glossary } from '../glossary';
+import { saveToLibrary } from '../library';
+import { mixTracks } from '../media/mix';
+import { mergeTracks } from '../multitrack';
+import { renderMarkdown } from '../transcript-model';
+import { DEFAULT_TRANSCRIBER, createTranscriber } from '../transcription/backends';
+import { FinishedTranscription, TranscriberId, TranscriptionOutcome } from '../transcription/types';
+import { UploadInfo, getUploadStore } from '../uploads';
+import { startAutoEnhancements } from './enhancement';
+import { JobStore, TrackState, TranscriptionJob } from './types';
+
+// With webhooks enabled, fall back to polling only for jobs that have gone quiet
+// for this long, e.g. because the callback was missed during a restart
+const WEBHOOK_FALLBACK_MS = 10 * 60 * 1000;
+
+// Enhancements report progress after every chunk; one that has been silent this
+// long was lost with a server restart and will never finish
+const ENHANCEMENT_STALE_MS = 10 * 60 * 1000;
+
+// Synchronous backends (Deepgram, Whisper) leave nothing to poll, so the process
+// submitting a job beats this often while it waits. A job whose heartbeat has been
+// missing for SUBMISSION_STALE_MS lost that process, usually to a restart
+const SUBMISSION_HEARTBEAT_MS = 60 * 1000;
+const SUBMISSION_STALE_MS = 5 * 60 * 1000;
+
+// Multi-track jobs get one callback per track, told apart by its index
+export function getWebhookOptions(jobId: string, track?: number): WebhookOptions | undefined {
+  const baseUrl = process.env.APP_BASE_URL;
+  const secret = process.env.ASSEMBLY_AI_WEBHOOK_SECRET;
+
+  if (!baseUrl || !secret) {
+    return undefined;
+  }
+
+  return {
+    url: `${baseUrl.replace(/\/$/, '')}/api/webhooks/assemblyai?job=${encodeURIComponent(jobId)}${track !== undefined ? `&track=${track}` : ''}`,
+    secret,
+  };
+}
+
+// Runs a job's submission while recording heartbeats against it, however long the
+// backend takes to answer
+async function withHeartbeat(store: JobStore, jobId: string, submit: () => Promise<void>): Promise<void> {
+  const timer = setInterval(() => {
+    store.update(jobId, { heartbeatAt: new Date().toISOString() }).catch(error => {
+      console.error(`Job ${jobId} heartbeat error:`, error);
+    });
+  }, SUBMISSION_HEARTBEAT_MS);
+
+  try {
+    await submit();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+async function submitTranscription(
+  store: JobStore,
+  jobId: string,
+  transcriberId: TranscriberId,
+  uploadId: string,
+  glossary: Glossary
+): Promise<void> {
+  try {
+    const transcriber = createTranscriber(transcriberId);
+    const audio = await getUploadStore().audio(uploadId);
+    if (!audio) {
+      throw new Error('Upload not found');
+    }
+
+    // Keep the audio for the Gemini enhancement that runs once transcription completes
+    await store.saveAudioFile(jobId, audio.path);
+    await store.update(jobId, {
+      // Backends without polling do all their work inside the one request
+      status: transcriber.poll ? 'uploading' : 'processing',
+      audioMimeType: audio.mimeType,
+      preprocessing: audio.report,
+    });
+
+    // Streamed from disk, so even an uncompressed original isn't held in memory
+    const outcome = await transcriber.transcribe({
+      audio: await openAsBlob(audio.path, { type: audio.mimeType }),
+      fileName: audio.fileName,
+      glossary,
+      webhook: getWebhookOptions(jobId),
+    });
+
+    if (outcome.status === 'queued' || outcome.status === 'processing') {
+      await store.update(jobId, { status: outcome.status, externalId: outcome.externalId });
+    } else {
+      await completeTranscriptionJob(store, jobId, outcome);
+    }
+  } catch (error) {
+    console.error(`Job ${jobId} submission error:`, error);
+    await completeTranscriptionJob(store, jobId, {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to start transcription',
+    });
+  }
+}
+
+export async function createTranscriptionJob(
+  store: JobStore,
+  upload: UploadInfo,
+  glossary: Glossary = [],
+  transcriber: TranscriberId = DEFAULT_TRANSCRIBER,
+  promptProfile?: string
+): Promise<TranscriptionJob> {
+  const now = new Date().toISOString();
+  const job: TranscriptionJob = {
+    id: crypto.randomUUID(),
+    status: 'preprocessing',
+    fileName: upload.fileName,
+    fileSize: upload.fileSize,
+    audioMimeType: upload.mimeType,
+    uploadId: upload.id,
+    transcriber,
+    ...(glossary.length > 0 && { glossary }),
+    ...(promptProfile && { promptProfile }),
+    heartbeatAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.create(job);
+
+  // Upload and submission continue after the response so the caller gets the id right away
+  void withHeartbeat(store, job.id, () => submitTranscription(store, job.id, transcriber, upload.id, glossary)).catch(error => {
+    console.error(`Job ${job.id} could not record its submission error:`, error);
+  });
+
+  return job;
+}
+
+async function submitTracks(
+  store: JobStore,
+  jobId: string,
+  transcriberId: TranscriberId,
+  tracks: TrackState[],
+  glossary: Glossary
+): Promise<void> {
+  try {
+    const transcriber = createTranscriber(transcriberId);
+    const audio = await Promise.all(tracks.map(async track => {
+      const prepared = await getUploadStore().audio(track.uploadId);
+      if (!prepared) {
+        throw new Error(`Upload for ${track.speaker} not found`);
+      }
+      return prepared;
+    }));
+
+    // Audio-capable enhancers listen to the whole conversation, so keep a mixdown
+    try {
+      const mix = await mixTracks(audio.map(prepared => prepared.path));
+      try {
+        await store.saveAudioFile(jobId, mix.path);
+      } finally {
+        await mix.remove();
+      }
+      await store.update(jobId, { audioMimeType: mix.mimeType });
+    } catch (error) {
+      console.warn(`Job ${jobId} tracks could not be mixed; audio enhancements will be skipped:`, error);
+    }
+
+    await store.update(jobId, { status: transcriber.poll ? 'uploading' : 'processing' });
+
+    await Promise.all(tracks.map(async (track, i) => {
+      const outcome: TranscriptionOutcome = await transcriber.transcribe({
+        audio: await openAsBlob(audio[i].path, { type: audio[i].mimeType }),
+        fileName: audio[i].fileName,
+        glossary,
+        webhook: getWebhookOptions(jobId, i),
+      }).catch(error => ({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to start transcription',
+      }));
+      await recordTrackOutcome(store, jobId, i, outcome);
+    }));
+  } catch (error) {
+    console.error(`Job ${jobId} submission error:`, error);
+    await completeTranscriptionJob(store, jobId, {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to start transcription',
+    });
+  }
+}
+
+export async function createMultiTrackJob(
+  store: JobStore,
+  tracks: { upload: UploadInfo; speaker: string }[],
+  glossary: Glossary = [],
+  transcriber: TranscriberId = DEFAULT_TRANSCRIBER,
+  promptProfile?: string
+): Promise<TranscriptionJob> {
+  const now = new Date().toISOString();
+  const job: TranscriptionJob = {
+    id: crypto.randomUUID(),
+    status: 'preprocessing',
+    fileName: tracks.map(({ upload }) => upload.fileName).join(' + '),
+    fileSize: tracks.reduce((sum, { upload }) => sum + upload.fileSize, 0),
+    transcriber,
+    tracks: tracks.map(({ upload, speaker }) => ({
+      speaker,
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      status: 'pending',
+    })),
+    ...(glossary.length > 0 && { glossary }),
+    ...(promptProfile && { promptProfile }),
+    heartbeatAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.create(job);
+
+  void withHeartbeat(store, job.id, () => submitTracks(store, job.id, transcriber, job.tracks!, glossary)).catch(error => {
+    console.error(`Job ${job.id} could not record its submission error:`, error);
+  });
+
+  return job;
+}
+
+// Records one track's outcome. Once every track has finished they are merged
+// into the job's transcript; a single failed track fails the job.
+export async function recordTrackOutcome(
+  store: JobStore,
+  jobId: string,
+  index: number,
+  outcome: TranscriptionOutcome
+): Promise<TranscriptionJob> {
+  const job = await store.update(jobId, current => ({
+    tracks: (current.tracks || []).map((track, i): TrackState => {
+      if (i !== index) return track;
+      if (outcome.status === 'completed') return { ...track, status: 'completed', transcript: outcome.transcript, response: outcome.response };
+      if (outcome.status === 'error') return { ...track, status: 'error', error: outcome.error };
+      // A webhook can finish the track before submission records its id
+      const finished = track.status === 'completed' || track.status === 'error';
+      return { ...track, externalId: outcome.externalId, ...(!finished && { status: outcome.status }) };
+    }),
+  }));
+
+  const tracks = job.tracks || [];
+  const failed = tracks.find(track => track.status === 'error');
+
+  if (failed) {
+    return completeTranscriptionJob(store, jobId, { status: 'error', error: `${failed.speaker}'s track: ${failed.error}` });
+  }
+
+  if (tracks.every(track => track.status === 'completed')) {
+    const transcript = mergeTracks(tracks.map(track => ({ speaker: track.speaker, transcript: track.transcript! })));
+    return completeTranscriptionJob(store, jobId, {
+      status: 'completed',
+      transcript,
+      rawText: transcript.segments.flatMap(segment => segment.paragraphs.map(paragraph => paragraph.text)).join(' '),
+      response: tracks.map(({ speaker, response }) => ({ speaker, response })),
+    });
+  }
+
+  // The job reads as processing as soon as any track is
+  const status = tracks.some(track => track.status === 'processing') ? 'processing' : 'queued';
+  return job.status === status || job.status === 'completed' || job.status === 'error' ? job : store.update(jobId, { status });
+}
+
+// Records a finished transcript against its job. Safe to call more than once
+// (webhook and polling may race); only the first call starts enhancements. A
+// failed job's audio is removed, since nothing will be made from it.
+export async function completeTranscriptionJob(
+  store: JobStore,
+  jobId: string,
+  outcome: FinishedTranscription
+): Promise<TranscriptionJob> {
+  let transitioned = false;
+
+  const job = await store.update(jobId, current => {
+    if (current.status === 'completed' || current.status === 'error') {
+      return {};
+    }
+
+    transitioned = true;
+
+    if (outcome.status === 'error') {
+      return { status: 'error', error: outcome.error };
+    }
+
+    return {
+      status: 'completed',
+      result: {
+        transcript: renderMarkdown(outcome.transcript),
+        raw_text: outcome.rawText,
+        structured_transcript: outcome.transcript,
+      },
+    };
+  });
+
+  if (transitioned && job.status === 'error') {
+    await store.deleteAudio(jobId);
+  }
+
+  if (transitioned && job.status === 'completed' && job.result) {
+    // Library entries share the job's id, so enhancements can be filed against it
+    await saveToLibrary({
+      id: jobId,
+      source: {
+        fileName: job.fileName,
+        fileSize: job.fileSize,
+        transcriber: job.transcriber ?? DEFAULT_TRANSCRIBER,
+        ...(job.tracks && { tracks: job.tracks.map(track => track.speaker) }),
+        uploads: job.tracks ? job.tracks.map(track => track.uploadId) : job.uploadId ? [job.uploadId] : [],
+      },
+      transcript: job.result.structured_transcript,
+      response: outcome.status === 'completed' ? outcome.response : undefined,
+    });
+    await startAutoEnhancements(store, jobId, job.result.structured_transcript);
+  }
+
+  return job;
+}
+
+async function expireStaleEnhancements(store: JobStore, job: TranscriptionJob): Promise<TranscriptionJob> {
+  const running = Object.values(job.enhancements || {}).some(state => state?.status === 'running');
+
+  if (!running || Date.now() - Date.parse(job.updatedAt) < ENHANCEMENT_STALE_MS) {
+    return job;
+  }
+
+  return store.update(job.id, current => ({
+    enhancements: Object.fromEntries(
+      Object.entries(current.enhancements || {}).map(([id, state]) => [
+        id,
+        state?.status === 'running' ? { ...state, status: 'error', error: 'Enhancement was interrupted' } : state,
+      ])
+    ),
+  }));
+}
+
+// A job that never got an external id has nothing to poll. Once its heartbeat has
+// stopped for SUBMISSION_STALE_MS, the process submitting it is gone (usually to a
+// restart), so it is marked as an error rather than left waiting forever. Jobs from
+// before heartbeats were recorded go by their last update instead.
+async function expireStaleSubmission(store: JobStore, job: TranscriptionJob): Promise<TranscriptionJob> {
+  if (Date.now() - Date.parse(job.heartbeatAt ?? job.updatedAt) < SUBMISSION_STALE_MS) {
+    return job;
+  }
+  return completeTranscriptionJob(store, job.id, { status: 'error', error: 'Transcription was interrupted' });
+}
+
+const isPollable = (track: TrackState) => !!track.externalId && (track.status === 'queued' || track.status === 'processing');
+
+async function refreshTracks(store: JobStore, job: TranscriptionJob): Promise<TranscriptionJob> {
+  const transcriber = createTranscriber(job.transcriber ?? DEFAULT_TRANSCRIBER);
+  const tracks = job.tracks || [];
+
+  if (!tracks.some(isPollable)) {
+    return tracks.some(track => track.status === 'pending') ? expireStaleSubmission(store, job) : job;
+  }
+
+  if (!transcriber.poll) {
+    return job;
+  }
+
+  if (transcriber.id === 'assemblyai' && getWebhookOptions(job.id) && Date.now() - Date.parse(job.updatedAt) < WEBHOOK_FALLBACK_MS) {
+    return job;
+  }
+
+  let latest = job;
+  for (const [i, track] of tracks.entries()) {
+    if (isPollable(track)) {
+      latest = await recordTrackOutcome(store, job.id, i, await transcriber.poll(track.externalId!));
+    }
+  }
+  return latest;
+}
+
+// Checks the backend once for jobs still in flight. Only the backend's own id is
+// needed, so this also resumes jobs that were started before a server restart.
+export async function refreshTranscriptionJob(store: JobStore, job: TranscriptionJob): Promise<TranscriptionJob> {
+  if (job.status === 'completed') {
+    return expireStaleEnhancements(store, job);
+  }
+
+  if (job.status === 'error') {
+    return job;
+  }
+
+  if (job.tracks) {
+    return refreshTracks(store, job);
+  }
+
+  if (!job.externalId) {
+    return expireStaleSubmission(store, job);
+  }
+
+  const transcriber = createTranscriber(job.transcriber ?? DEFAULT_TRANSCRIBER);
+
+  if (!transcriber.poll || (job.status !== 'queued' && job.status !== 'processing')) {
+    return job;
+  }
+
+  if (transcriber.id === 'assemblyai' && getWebhookOptions(job.id) && Date.now() - Date.parse(job.updatedAt) < WEBHOOK_FALLBACK_MS) {
+    return job;
+  }
+
+  const outcome = await transcriber.poll(job.externalId);
+
+  if (outcome.status === 'queued' || outcome.status === 'processing') {
+    return outcome.status === job.status ? job : store.update(job.id, { status: outcome.status });
+  }
+
+  return completeTranscriptionJob(store, job.id, outcome);
+}
@@ -0,0 +1,80 @@
+import { EnhancementResult, ProviderId } from '../enhancement/types';
+import { Glossary } from '../glossary';
+import { PreprocessResult } from '../media/preprocess';
+import { TranscriberId } from '../transcription/types';
+import { Transcript } from '../transcript-model';
+
+export type JobStatus = 'preprocessing' | 'uploading' | 'queued' | 'processing' | 'completed' | 'error';
+
+export interface TranscriptionResult {
+  transcript: string;
+  raw_text: string;
+  structured_transcript: Transcript;
+}
+
+export interface EnhancementState {
+  status: 'running' | 'completed' | 'error';
+  completed: number;
+  total: number;
+  result?: EnhancementResult;
+  error?: string;
+}
+
+// One speaker's recording in a multi-track job
+export interface TrackState {
+  speaker: string;
+  uploadId: string;
+  fileName: string;
+  status: 'pending' | 'queued' | 'processing' | 'completed' | 'error';
+  externalId?: string;
+  // Kept until every track is done, then merged into the job's result
+  transcript?: Transcript;
+  // The backend's raw response, saved to the library with the merged transcript
+  response?: unknown;
+  error?: string;
+}
+
+export interface TranscriptionJob {
+  id: string;
+  status: JobStatus;
+  fileName: string;
+  fileSize: number;
+  audioMimeType?: string;
+  // The resumable upload the audio came from, reusable for later enhancements
+  uploadId?: string;
+  // What ffmpeg did to the upload before it was sent anywhere
+  preprocessing?: PreprocessResult;
+  // Terms sent to AssemblyAI and applied to the auto-enhancements
+  glossary?: Glossary;
+  // Prompt profile for the auto-enhancements; the default profile when unset
+  promptProfile?: string;
+  // Which ASR backend transcribes the job; older jobs without one used AssemblyAI
+  transcriber?: TranscriberId;
+  // The backend's own id for an asynchronous transcription (AssemblyAI's transcript id).
+  // Kept so an unfinished job can be resumed without paying for a second transcription
+  externalId?: string;
+  // Refreshed while the process submitting the job is still waiting on the backend
+  heartbeatAt?: string;
+  // Per-speaker tracks, each transcribed on its own and merged by timestamp
+  tracks?: TrackState[];
+  result?: TranscriptionResult;
+  // Enhancements started server-side once the transcript completes
+  enhancements?: Partial<Record<ProviderId, EnhancementState>>;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobPatch = Partial<Omit<TranscriptionJob, 'id' | 'createdAt'>>;
+
+export interface JobStore {
+  create(job: TranscriptionJob): Promise<void>;
+  get(id: string): Promise<TranscriptionJob | null>;
+  // A function patch is applied atomically against the latest stored job
+  update(id: string, patch: JobPatch | ((job: TranscriptionJob) => JobPatch)): Promise<TranscriptionJob>;
+  // Keeps a file that is already on disk, e.g. an upload's compressed audio, without reading it
+  saveAudioFile(id: string, sourcePath: string): Promise<void>;
+  // Where the kept audio is on disk, or null when the job has none
+  audioFile(id: string): Promise<string | null>;
+  deleteAudio(id: string): Promise<void>;
+}
@@ -0,0 +1,35 @@
+import path from 'path';
+import { EnhancementResult } from '../enhancement/types';
+import { LibraryEntry, LibraryStore, NewLibraryEntry } from './store';
+
+export * from './store';
+
+const globalForLibrary = globalThis as unknown as { libraryStore?: LibraryStore };
+
+export function getLibraryStore(): LibraryStore {
+  if (!globalForLibrary.libraryStore) {
+    globalForLibrary.libraryStore = new LibraryStore(
+      process.env.LIBRARY_DIR || path.join(process.cwd(), '.data', 'library')
+    );
+  }
+  return globalForLibrary.libraryStore;
+}
+
+// The library is a record of work already paid for; failing to write it is
+// logged rather than allowed to fail the transcription or enhancement itself
+export async function saveToLibrary(entry: NewLibraryEntry): Promise<LibraryEntry | null> {
+  try {
+    return await getLibraryStore().create(entry);
+  } catch (error) {
+    console.error('Library save error:', error);
+    return null;
+  }
+}
+
+export async function recordEnhancementRun(entryId: string, result: EnhancementResult): Promise<void> {
+  try {
+    await getLibraryStore().addEnhancement(entryId, result);
+  } catch (error) {
+    console.error(`Library entry ${entryId} enhancement record error:`, error);
+  }
+}
@@ -0,0 +1,254 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EnhancementResult, ProviderId } from '../enhancement/types';
+import { Transcript, renderMarkdown } from '../transcript-model';
+import { TranscriberId } from '../transcription/types';
+
+// Entry ids are job ids or generated server-side, but never let one escape the directory
+const ENTRY_ID_PATTERN = /^[\w-]+$/;
+
+// How much transcript text to show around a search match
+const EXCERPT_RADIUS = 80;
+
+export interface LibrarySource {
+  fileName: string;
+  fileSize: number;
+  transcriber: TranscriberId;
+  // Speaker names, for recordings made with one track per speaker
+  tracks?: string[];
+  // Uploads the recording came from, kept for as long as the entry is
+  uploads?: string[];
+}
+
+export interface EnhancementRun {
+  id: string;
+  provider: ProviderId;
+  model: string;
+  // Unset on runs made before prompt profiles, which all used the standard prompt
+  promptProfile?: string;
+  promptVersion: string;
+  createdAt: string;
+  result: EnhancementResult;
+}
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  source: LibrarySource;
+  // The transcript as it came back from the transcriber, before any enhancement
+  transcript: Transcript;
+  markdown: string;
+  enhancements: EnhancementRun[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the library page lists: everything but the transcripts themselves
+export interface LibrarySummary {
+  id: string;
+  title: string;
+  source: LibrarySource;
+  durationMs: number;
+  enhancements: Omit<EnhancementRun, 'result'>[];
+  // Transcript text around the search match, or its opening when not searching
+  excerpt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewLibraryEntry {
+  // Jobs reuse their own id, so the page can refer to the entry by job id
+  id?: string;
+  title?: string;
+  source: LibrarySource;
+  transcript: Transcript;
+  // The transcriber's raw response, stored beside the entry
+  response?: unknown;
+}
+
+const plainText = (transcript: Transcript) =>
+  transcript.segments.flatMap(segment => segment.paragraphs.map(paragraph => paragraph.text)).join(' ');
+
+function excerpt(text: string, query: string): string | null {
+  const at = query ? text.toLowerCase().indexOf(query) : 0;
+  if (at < 0) return null;
+
+  const start = Math.max(0, at - EXCERPT_RADIUS);
+  const end = Math.min(text.length, at + query.length + EXCERPT_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+export class LibraryStore {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private directory: string) {}
+
+  private entryPath(id: string, suffix: string = 'json'): string {
+    if (!ENTRY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid library entry id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.${suffix}`);
+  }
+
+  // Serialise read-modify-write cycles per entry so concurrent runs aren't lost
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.locks.set(id, next);
+    next.finally(() => {
+      if (this.locks.get(id) === next) {
+        this.locks.delete(id);
+      }
+    }).catch(() => {});
+    return next;
+  }
+
+  private async write(entry: LibraryEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temp file first so a crash never leaves a half-written entry
+    const target = this.entryPath(entry.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry, null, 2));
+    await fs.rename(temp, target);
+  }
+
+  private async update(id: string, change: (entry: LibraryEntry) => Partial<LibraryEntry>): Promise<LibraryEntry | null> {
+    return this.withLock(id, async () => {
+      const entry = await this.get(id);
+      if (!entry) return null;
+
+      const updated = { ...entry, ...change(entry), updatedAt: new Date().toISOString() };
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  // Creating an entry that already exists leaves it as it is, so a repeated
+  // completion (webhook and poll racing) doesn't wipe its enhancement history
+  async create({ id = crypto.randomUUID(), title, source, transcript, response }: NewLibraryEntry): Promise<LibraryEntry> {
+    return this.withLock(id, async () => {
+      const existing = await this.get(id);
+      if (existing) return existing;
+
+      const now = new Date().toISOString();
+      const entry: LibraryEntry = {
+        id,
+        title: title || source.fileName.replace(/\.[^.]+$/, ''),
+        source,
+        transcript,
+        markdown: renderMarkdown(transcript),
+        enhancements: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      if (response !== undefined) {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(this.entryPath(id, 'response.json'), JSON.stringify(response));
+      }
+      await this.write(entry);
+      return entry;
+    });
+  }
+
+  async get(id: string): Promise<LibraryEntry | null> {
+    if (!ENTRY_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.entryPath(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // The raw transcriber response as JSON text, or null when none was kept
+  async getResponse(id: string): Promise<string | null> {
+    if (!ENTRY_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(this.entryPath(id, 'response.json'), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Newest first. A query matches the title, the file name or the transcript text.
+  async list(query: string = ''): Promise<LibrarySummary[]> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const needle = query.trim().toLowerCase();
+    const summaries: LibrarySummary[] = [];
+
+    for (const file of files.filter(name => /^[\w-]+\.json$/.test(name))) {
+      const entry = await this.get(file.slice(0, -'.json'.length));
+      if (!entry) continue;
+
+      const text = plainText(entry.transcript);
+      const named = `${entry.title} ${entry.source.fileName}`.toLowerCase().includes(needle);
+      const match = excerpt(text, needle) ?? (named ? excerpt(text, '') : null);
+      if (match === null) continue;
+
+      summaries.push({
+        id: entry.id,
+        title: entry.title,
+        source: entry.source,
+        durationMs: entry.transcript.segments.at(-1)?.end ?? 0,
+        enhancements: entry.enhancements.map(({ id, provider, model, promptProfile, promptVersion, createdAt }) =>
+          ({ id, provider, model, promptProfile, promptVersion, createdAt })),
+        excerpt: match,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+      });
+    }
+
+    return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async rename(id: string, title: string): Promise<LibraryEntry | null> {
+    return this.update(id, () => ({ title }));
+  }
+
+  async addEnhancement(id: string, result: EnhancementResult): Promise<LibraryEntry | null> {
+    const run: EnhancementRun = {
+      id: crypto.randomUUID(),
+      provider: result.provider,
+      model: result.model,
+      promptProfile: result.prompt_profile,
+      promptVersion: result.prompt_version,
+      createdAt: new Date().toISOString(),
+      result,
+    };
+    return this.update(id, entry => ({ enhancements: [...entry.enhancements, run] }));
+  }
+
+  // Every upload some entry still refers to
+  async uploadIds(): Promise<Set<string>> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const ids = new Set<string>();
+
+    for (const file of files.filter(name => /^[\w-]+\.json$/.test(name))) {
+      const entry = await this.get(file.slice(0, -'.json'.length));
+      entry?.source.uploads?.forEach(id => ids.add(id));
+    }
+    return ids;
+  }
+
+  // Returns the deleted entry, so whatever it kept elsewhere can go with it
+  async delete(id: string): Promise<LibraryEntry | null> {
+    return this.withLock(id, async () => {
+      const entry = await this.get(id);
+      if (!entry) return null;
+      await Promise.all(['json', 'response.json'].map(suffix => fs.rm(this.entryPath(id, suffix), { force: true })));
+      return entry;
+    });
+  }
+}
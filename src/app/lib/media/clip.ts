@@ -0,0 +1,62 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { probeMedia, runFfmpeg } from './ffmpeg';
+
+export interface ClipWindow {
+  start: number;
+  end: number;
+}
+
+export interface RenderedClip {
+  data: Buffer;
+  mimeType: string;
+  extension: string;
+}
+
+const seconds = (milliseconds: number) => (milliseconds / 1000).toFixed(3);
+
+// Seeking before -i is fast, and re-encoding makes the cut frame-accurate
+// instead of snapping to the nearest keyframe
+function clipArgs(inputPath: string, { start, end }: ClipWindow, video: boolean, outputPath: string): string[] {
+  return [
+    '-y',
+    '-ss', seconds(start),
+    '-i', inputPath,
+    '-t', seconds(end - start),
+    ...(video ? ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20'] : ['-vn']),
+    '-c:a', 'aac', '-b:a', '160k',
+    '-movflags', '+faststart',
+    outputPath,
+  ];
+}
+
+const shellQuote = (arg: string) => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+// A relative path starting with "-" would be read by ffmpeg as an option, so name the directory
+const localPath = (file: string) => path.isAbsolute(file) ? file : `./${file}`;
+
+export function clipFileName(fileName: string, clip: ClipWindow, video: boolean): string {
+  const base = path.basename(fileName).replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '-') || 'clip';
+  return `${base}-${Math.floor(clip.start / 1000)}s-${Math.ceil(clip.end / 1000)}s.${video ? 'mp4' : 'm4a'}`;
+}
+
+// The command that renderClip runs, for cutting the clip from a local copy
+export function clipCommand(fileName: string, clip: ClipWindow, video: boolean = true): string {
+  const args = clipArgs(localPath(fileName), clip, video, localPath(clipFileName(fileName, clip, video)));
+  return ['ffmpeg', ...args].map(shellQuote).join(' ');
+}
+
+// Cuts a clip from the original upload, keeping the picture when there is one
+export async function renderClip(inputPath: string, clip: ClipWindow): Promise<RenderedClip> {
+  const { hasVideo } = await probeMedia(inputPath);
+  const extension = hasVideo ? 'mp4' : 'm4a';
+  const directory = await mkdtemp(path.join(tmpdir(), 'transcribe-clip-'));
+  const outputPath = path.join(directory, `clip.${extension}`);
+
+  try {
+    await runFfmpeg(clipArgs(inputPath, clip, hasVideo, outputPath));
+    return { data: await readFile(outputPath), mimeType: hasVideo ? 'video/mp4' : 'audio/mp4', extension };
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,59 @@
+import { spawn } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+
+export interface MediaProbe {
+  durationMs: number;
+  hasAudio: boolean;
+  hasVideo: boolean;
+  // e.g. "aac, 44100 Hz, stereo"
+  audioCodec?: string;
+}
+
+export function getFfmpegPath(): string | null {
+  return process.env.FFMPEG_PATH || ffmpegStatic;
+}
+
+// Runs ffmpeg to completion, resolving with its stderr (where it writes its log)
+export function runFfmpeg(args: string[]): Promise<string> {
+  const ffmpegPath = getFfmpegPath();
+
+  if (!ffmpegPath) {
+    return Promise.reject(new Error('ffmpeg is not available on this platform'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath, ['-hide_banner', ...args], { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stderr);
+      } else {
+        const lastLine = stderr.trim().split('\n').pop() || '';
+        reject(new Error(`ffmpeg exited with code ${code}: ${lastLine}`));
+      }
+    });
+  });
+}
+
+// ffmpeg-static ships without ffprobe, so read the stream summary ffmpeg prints
+// while "converting" zero seconds of the input to nowhere
+export async function probeMedia(inputPath: string): Promise<MediaProbe> {
+  const log = await runFfmpeg(['-i', inputPath, '-t', '0', '-f', 'null', '-']);
+
+  const duration = log.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  const audio = log.match(/Stream #\S+.*?: Audio: (.+)/);
+
+  return {
+    durationMs: duration
+      ? Math.round(((Number(duration[1]) * 60 + Number(duration[2])) * 60 + Number(duration[3])) * 1000)
+      : 0,
+    hasAudio: !!audio,
+    hasVideo: /Stream #\S+.*?: Video: /.test(log),
+    ...(audio && { audioCodec: audio[1].split(',').slice(0, 3).join(',').trim() }),
+  };
+}
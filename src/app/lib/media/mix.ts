@@ -0,0 +1,36 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { runFfmpeg } from './ffmpeg';
+import { AUDIO_FORMATS, configuredFormat } from './preprocess';
+
+// The mix is written to a temp directory; link or copy it somewhere before removing it
+export interface MixedAudio {
+  path: string;
+  mimeType: string;
+  remove(): Promise<void>;
+}
+
+// Mixes per-speaker tracks down to one mono file, for providers that listen to
+// the whole conversation. Tracks are assumed to start at the same moment.
+export async function mixTracks(inputPaths: string[]): Promise<MixedAudio> {
+  const directory = await mkdtemp(path.join(tmpdir(), 'transcribe-mix-'));
+  const { args, extension, mimeType } = AUDIO_FORMATS[configuredFormat() ?? 'opus'];
+  const outputPath = path.join(directory, `mix.${extension}`);
+  const remove = () => rm(directory, { recursive: true, force: true });
+
+  try {
+    await runFfmpeg([
+      '-y',
+      ...inputPaths.flatMap(inputPath => ['-i', inputPath]),
+      // normalize=0 keeps each voice at its own level instead of dividing by the track count
+      '-filter_complex', `amix=inputs=${inputPaths.length}:duration=longest:normalize=0`,
+      '-vn', '-ac', '1', ...args,
+      outputPath,
+    ]);
+    return { path: outputPath, mimeType, remove };
+  } catch (error) {
+    await remove();
+    throw error;
+  }
+}
@@ -0,0 +1,94 @@
+import { rm, stat } from 'fs/promises';
+import path from 'path';
+import { probeMedia, runFfmpeg } from './ffmpeg';
+
+export type PreprocessFormat = 'opus' | 'mp3';
+
+export interface PreprocessResult {
+  durationMs: number;
+  originalSize: number;
+  processedSize: number;
+  format: PreprocessFormat | 'original';
+  hadVideo: boolean;
+  // Set when the original file was kept, e.g. because ffmpeg isn't available
+  skipped?: string;
+}
+
+export interface PreprocessedAudio {
+  data: Buffer;
+  mimeType: string;
+  fileName: string;
+  report: PreprocessResult;
+}
+
+export type PreprocessedAudioFile = Omit<PreprocessedAudio, 'data'> & { path: string };
+
+// Speech needs little bandwidth: mono 16 kHz Opus keeps three hours around 30MB
+export const AUDIO_FORMATS: Record<PreprocessFormat, { args: string[]; extension: string; mimeType: string }> = {
+  opus: { args: ['-ar', '16000', '-c:a', 'libopus', '-b:a', '24k', '-application', 'voip'], extension: 'ogg', mimeType: 'audio/ogg' },
+  mp3: { args: ['-ar', '22050', '-c:a', 'libmp3lame', '-b:a', '64k'], extension: 'mp3', mimeType: 'audio/mpeg' },
+};
+
+// AUDIO_PREPROCESS=off uploads files untouched; mp3 trades size for compatibility
+export function configuredFormat(): PreprocessFormat | null {
+  const setting = (process.env.AUDIO_PREPROCESS || 'opus').toLowerCase();
+  if (setting === 'off') return null;
+  return setting === 'mp3' ? 'mp3' : 'opus';
+}
+
+// Probes the file at inputPath, drops any video track, downmixes to mono and
+// compresses it to `${outputBase}.<extension>`. Never fails: if anything goes
+// wrong the returned path is inputPath itself, i.e. the original is used.
+export async function preprocessAudioFile(
+  inputPath: string,
+  fileName: string,
+  mimeType: string,
+  outputBase: string
+): Promise<PreprocessedAudioFile> {
+  const { size: originalSize } = await stat(inputPath);
+  const original = (skipped: string, durationMs = 0, hadVideo = false): PreprocessedAudioFile => ({
+    path: inputPath,
+    mimeType,
+    fileName,
+    report: { durationMs, originalSize, processedSize: originalSize, format: 'original', hadVideo, skipped },
+  });
+
+  const format = configuredFormat();
+  if (!format) return original('Preprocessing is disabled');
+
+  const { args, extension, mimeType: outputType } = AUDIO_FORMATS[format];
+  const outputPath = `${outputBase}.${extension}`;
+
+  try {
+    const probe = await probeMedia(inputPath);
+    if (!probe.hasAudio) {
+      return original('No audio track found', probe.durationMs, probe.hasVideo);
+    }
+
+    await runFfmpeg(['-y', '-i', inputPath, '-vn', '-map', '0:a:0', '-ac', '1', ...args, outputPath]);
+
+    const { size } = await stat(outputPath);
+    // Already-compact audio can come out bigger; keep whichever is smaller
+    if (size >= originalSize) {
+      await rm(outputPath, { force: true });
+      return original('Original is already smaller', probe.durationMs, probe.hasVideo);
+    }
+
+    return {
+      path: outputPath,
+      mimeType: outputType,
+      fileName: `${path.parse(fileName).name}.${extension}`,
+      report: {
+        durationMs: probe.durationMs,
+        originalSize,
+        processedSize: size,
+        format,
+        hadVideo: probe.hasVideo,
+      },
+    };
+  } catch (error) {
+    console.error('Audio preprocessing failed, using the original file:', error);
+    await rm(outputPath, { force: true });
+    return original(error instanceof Error ? error.message : 'Preprocessing failed');
+  }
+}
@@ -0,0 +1,84 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { runFfmpeg } from './ffmpeg';
+import { AUDIO_FORMATS, configuredFormat } from './preprocess';
+
+// Audio either side of a window, so words cut at the boundary are still heard
+const DEFAULT_PADDING_SECONDS = 5;
+
+export interface AudioWindow {
+  startMs: number;
+  // Open-ended windows run to the end of the file
+  endMs?: number;
+}
+
+// Slices are files in the slicer's temp directory, removed on close
+export interface AudioSlice {
+  path: string;
+  mimeType: string;
+}
+
+export interface AudioSlicer {
+  slice(window: AudioWindow): Promise<AudioSlice>;
+  close(): Promise<void>;
+}
+
+// AUDIO_SLICE_PADDING_SECONDS sets how much audio surrounds each window
+export function configuredPaddingMs(): number {
+  const seconds = Number(process.env.AUDIO_SLICE_PADDING_SECONDS);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_PADDING_SECONDS) * 1000;
+}
+
+export function padWindow({ startMs, endMs }: AudioWindow, paddingMs: number): AudioWindow {
+  return {
+    startMs: Math.max(0, startMs - paddingMs),
+    ...(endMs !== undefined && { endMs: endMs + paddingMs }),
+  };
+}
+
+// Cuts windows from an audio file on demand, so only the slices are ever read into
+// memory. Each window is cut once however many times it is asked for, e.g. on a retried request.
+export function createAudioSlicer(inputPath: string): AudioSlicer {
+  const slices = new Map<string, Promise<AudioSlice>>();
+  const { args, extension, mimeType: outputType } = AUDIO_FORMATS[configuredFormat() ?? 'opus'];
+  let output: Promise<string> | null = null;
+
+  const cut = async ({ startMs, endMs }: AudioWindow): Promise<AudioSlice> => {
+    output ??= mkdtemp(path.join(tmpdir(), 'transcribe-slices-'));
+    const directory = await output;
+    const outputPath = path.join(directory, `${startMs}-${endMs ?? 'end'}.${extension}`);
+
+    // Seeking before -i is fast, and re-encoding keeps the cut sample-accurate
+    await runFfmpeg([
+      '-y',
+      '-ss', (startMs / 1000).toFixed(3),
+      ...(endMs !== undefined ? ['-t', ((endMs - startMs) / 1000).toFixed(3)] : []),
+      '-i', inputPath,
+      '-vn', '-ac', '1', ...args,
+      outputPath,
+    ]);
+
+    return { path: outputPath, mimeType: outputType };
+  };
+
+  return {
+    slice(window) {
+      const key = `${window.startMs}-${window.endMs ?? 'end'}`;
+      let slice = slices.get(key);
+      if (!slice) {
+        slice = cut(window);
+        // A failed cut may be retried; only successful ones are kept
+        slice.catch(() => slices.delete(key));
+        slices.set(key, slice);
+      }
+      return slice;
+    },
+
+    async close() {
+      if (!output) return;
+      const directory = await output.catch(() => null);
+      if (directory) await rm(directory, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { SourceUtterance, Transcript, Word, fromUtterances } from './transcript-model';
+
+// "Yeah", "mm-hmm, right" — short enough to sit beside a turn rather than cut it in two
+const BACKCHANNEL_MAX_WORDS = 3;
+const BACKCHANNEL_MAX_MS = 2000;
+// How far a backchannel may run past the end of the turn it interrupts
+const BACKCHANNEL_TOLERANCE_MS = 500;
+// An utterance this much repeated, word for word, in a more confident one on another
+// track at the same time is the other speaker leaking into this speaker's mic
+const BLEED_MATCH_RATIO = 0.8;
+
+export interface SpeakerTrack {
+  // The speaker's name, as typed. Utterances are attributed to the track's label
+  // (A, B, ...) so headers stay parseable; the name goes in the speaker list.
+  speaker: string;
+  transcript: Transcript;
+}
+
+interface TrackUtterance extends SourceUtterance {
+  track: number;
+}
+
+const normalizeWord = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+function tokens(utterance: SourceUtterance): string[] {
+  return utterance.text.split(/\s+/).map(normalizeWord).filter(Boolean);
+}
+
+const overlaps = (a: SourceUtterance, b: SourceUtterance) => a.start < b.end && b.start < a.end;
+
+// A, B, ... Z, AA, AB: the labels diarization would have given the speakers
+function trackLabel(track: number): string {
+  const letter = String.fromCharCode(65 + (track % 26));
+  return track < 26 ? letter : trackLabel(Math.floor(track / 26) - 1) + letter;
+}
+
+function flattenTrack({ transcript }: SpeakerTrack, track: number): TrackUtterance[] {
+  // Diarization on a single-speaker track only finds crosstalk; the track decides the speaker
+  return transcript.segments.flatMap(segment => segment.paragraphs.map(paragraph => ({
+    track,
+    speaker: trackLabel(track),
+    start: paragraph.start,
+    end: paragraph.end,
+    text: paragraph.text,
+    ...(paragraph.confidence !== undefined && { confidence: paragraph.confidence }),
+    ...(paragraph.words && { words: paragraph.words }),
+  })));
+}
+
+function isBleed(utterance: TrackUtterance, all: TrackUtterance[]): boolean {
+  const words = tokens(utterance);
+  if (words.length === 0) return false;
+
+  return all.some(other => {
+    if (other.track === utterance.track || !overlaps(utterance, other)) return false;
+    if ((other.confidence ?? 1) <= (utterance.confidence ?? 1)) return false;
+
+    const available = new Set(tokens(other));
+    const matched = words.filter(word => available.has(word)).length;
+    return matched / words.length >= BLEED_MATCH_RATIO;
+  });
+}
+
+function isBackchannel(utterance: TrackUtterance): boolean {
+  return tokens(utterance).length <= BACKCHANNEL_MAX_WORDS && utterance.end - utterance.start <= BACKCHANNEL_MAX_MS;
+}
+
+function piece(utterance: TrackUtterance, words: Word[]): TrackUtterance {
+  const { confidence, ...rest } = utterance;
+  const scored = words.filter(word => word.confidence !== undefined);
+  return {
+    ...rest,
+    start: words[0].start,
+    end: words[words.length - 1].end,
+    text: words.map(word => word.text).join(' '),
+    words,
+    ...(scored.length > 0
+      ? { confidence: scored.reduce((sum, word) => sum + word.confidence!, 0) / scored.length }
+      : confidence !== undefined && { confidence }),
+  };
+}
+
+// Cuts an utterance at each time another speaker starts a real interruption,
+// so the two voices alternate in the timeline instead of one swallowing the other
+function splitAtInterruptions(utterance: TrackUtterance, interruptions: TrackUtterance[]): TrackUtterance[] {
+  const words = utterance.words || [];
+  const cuts = interruptions
+    .filter(other => other.track !== utterance.track && other.start > utterance.start && other.start < utterance.end)
+    .map(other => words.findIndex(word => word.start >= other.start))
+    .filter(index => index > 0);
+
+  if (cuts.length === 0) return [utterance];
+
+  const pieces: TrackUtterance[] = [];
+  let from = 0;
+  for (const cut of Array.from(new Set(cuts)).sort((a, b) => a - b)) {
+    pieces.push(piece(utterance, words.slice(from, cut)));
+    from = cut;
+  }
+  pieces.push(piece(utterance, words.slice(from)));
+  return pieces;
+}
+
+// Merges separately transcribed per-speaker tracks into one timeline. Mic bleed
+// is dropped, backchannels follow the turn they were said over, and longer
+// overlapping speech splits the turn it interrupts.
+export function mergeTracks(tracks: SpeakerTrack[]): Transcript {
+  const all = tracks.flatMap(flattenTrack);
+  const kept = all.filter(utterance => !isBleed(utterance, all));
+
+  const interruptions = kept.filter(utterance => !isBackchannel(utterance));
+  const pieces = kept.flatMap(utterance => splitAtInterruptions(utterance, interruptions));
+
+  const ordered = pieces.map(utterance => {
+    const host = isBackchannel(utterance)
+      ? pieces.find(other =>
+          other.track !== utterance.track &&
+          other.start < utterance.start &&
+          utterance.end <= other.end + BACKCHANNEL_TOLERANCE_MS &&
+          !isBackchannel(other))
+      : undefined;
+    // A backchannel sorts just after its host turn; everything else by when it starts
+    return { utterance, key: host ? host.end : utterance.start };
+  });
+
+  ordered.sort((a, b) => a.key - b.key || a.utterance.start - b.utterance.start);
+
+  const merged = fromUtterances(ordered.map(({ utterance }): SourceUtterance => ({
+    speaker: utterance.speaker,
+    start: utterance.start,
+    end: utterance.end,
+    text: utterance.text,
+    ...(utterance.confidence !== undefined && { confidence: utterance.confidence }),
+    ...(utterance.words && { words: utterance.words }),
+  })));
+  const names = new Map(tracks.map(({ speaker }, i) => [trackLabel(i), speaker]));
+  return { ...merged, speakers: merged.speakers.map(({ id }) => ({ id, name: names.get(id) })) };
+}
@@ -1,67 +1,8 @@
-export const SHARED_ENHANCEMENT_PROMPT = `You are an expert transcript editor. Your job is to clean up spoken conversation by removing verbal artifacts while preserving the exact words and phrasing used by the speakers.
+// Instructions added around the transcript itself. The enhancement prompt proper
+// comes from a prompt profile; see enhancement/profiles.
 
-IMPORTANT: Respond ONLY with the cleaned transcript. Do not include any explanations, headers, or phrases like "Here is the transcript."
+export const CHUNK_CONTEXT_INSTRUCTIONS = `This is one part of a longer conversation. The text inside <preceding_context> and <following_context> is only there so you can see what comes before and after; do not clean it or include it in your response. Return ONLY the cleaned text from <transcript_chunk>, without the tags, starting with its first speaker line exactly as given.`;
 
-Your goal is to make the transcript as readable as possible while keeping the speakers' EXACT words and phrasing. Think of this like removing static from a radio transmission - you're clarifying what was said, not changing what was said.
+export const UNCERTAIN_PASSAGES_INSTRUCTIONS = `The speech recognizer was unsure about the passages listed in <uncertain_passages> (timestamp, confidence, text as transcribed). Only where the surrounding conversation makes a mis-hearing obvious, such as a garbled name or a homophone, correct those words. Otherwise leave them as they are. Do not include the list in your response.`;
 
-CRITICAL REQUIREMENTS:
-
-1. PRESERVE ORIGINAL WORDS AND PHRASING:
-- Keep the speakers' exact vocabulary, word choices, and sentence structures
-- DO NOT rephrase, paraphrase, or substitute different words
-- DO NOT add sophistication or "improve" their language
-- DO NOT change their speaking style or tone
-- Maintain their natural way of expressing ideas
-
-2. REMOVE ONLY VERBAL ARTIFACTS:
-- Remove ALL filler words (um, uh, ah, like when used as filler, you know, etc.)
-- Remove ALL conversational artifacts (yeah, so, I mean, well, right, I think, etc.) when they're just verbal tics
-- Remove false starts and incomplete thoughts that get corrected
-- Remove stutters and repeated words/phrases
-- Remove meaningless interjections and throat clearing sounds
-
-3. CLEAN UP STRUCTURE WITHOUT CHANGING CONTENT - CRITICAL: ADD PARAGRAPH BREAKS!
-- MOST IMPORTANT: Add paragraph breaks to separate different topics, ideas, or thoughts
-- Break up long monologues into multiple logical paragraphs (typically 2-4 sentences each)
-- Start new paragraphs when the speaker shifts to a different point or topic
-- Fix obvious grammatical errors and add proper punctuation
-- Break up run-on sentences at natural pause points
-- Combine fragments that clearly belong together
-- Ensure sentences flow naturally with proper paragraph organization
-
-4. FORMATTING:
-- Keep "SPEAKER X 00:00:00" format for new speakers only
-- DO NOT change timestamps - keep them exactly as provided
-- Add TWO line breaks between speaker/timestamp and content
-- When continuing with same speaker in new paragraph, no attribution needed
-- Use paragraph breaks to organize ideas logically
-
-Example transformation:
-
-INPUT (raw speech):
-SPEAKER A 0:00:00
-Um, yeah, so like, I've been, uh, working on this new project at work, you know? And, uh, what's really interesting is that we're seeing these, um, amazing results with the new approach we're taking. Like, it's just, you know, it's really transforming how we do things. But, uh, you know, the real challenge we're facing now is, um, trying to scale this up, right? I mean, it's one thing to, uh, to get it working in a small test environment, but when you're talking about, like, rolling this out across, you know, the entire company, that's a whole different ballgame, you know what I mean?
-
-OUTPUT (cleaned but preserving exact words):
-SPEAKER A 0:00:00
-
-I've been working on this new project at work. What's really interesting is that we're seeing these amazing results with the new approach we're taking. It's really transforming how we do things.
-
-But the real challenge we're facing now is trying to scale this up. It's one thing to get it working in a small test environment, but when you're talking about rolling this out across the entire company, that's a whole different ballgame.
-
-Clean the following transcript by removing verbal artifacts while preserving the speakers' exact words and phrasing:`;
-
-export const GEMINI_AUDIO_ADDENDUM = `
-
-ADDITIONAL AUDIO-INFORMED ENHANCEMENTS:
-
-You have both the auto-generated transcript AND the original audio. Use the audio to:
-- Correct any transcription errors you hear
-- Better understand the speaker's tone and emphasis to preserve their speaking style
-- Identify speaker changes more accurately
-- Catch nuances that might have been missed in the auto-transcription
-- Use audio cues (tone, emphasis, pauses) to improve punctuation and paragraph breaks
-- Identify and fix any missed words or misheard phrases
-- Ensure you're preserving the speaker's actual words as heard in the audio
-
-Clean the following transcript using both the audio and text, preserving the speakers' exact words:`;
\ No newline at end of file
+export const UNCERTAIN_PASSAGES_AUDIO_INSTRUCTIONS = `The speech recognizer was unsure about the passages listed in <uncertain_passages> (timestamp, confidence, text as transcribed). Listen to the audio at those timestamps and correct any words that were misheard. Do not include the list in your response.`;
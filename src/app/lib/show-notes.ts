@@ -0,0 +1,308 @@
+import { ProviderRequestError, isRetryableError } from './enhancement/errors';
+import { isTruncated } from './enhancement/faithfulness';
+import { backoffDelay } from './enhancement/scheduler';
+import { EnhancementProvider, ProviderId, ProviderResponse } from './enhancement/types';
+import { SHOW_NOTES_PROMPT, SHOW_NOTES_PROMPT_VERSION, SHOW_NOTES_RETRY_INSTRUCTIONS } from './show-notes-prompts';
+import { SpeakerNames } from './speakers';
+import { estimateTokens } from './transcript';
+import { Paragraph, Transcript, renderMarkdown } from './transcript-model';
+
+export const DEFAULT_QUOTE_COUNT = 10;
+// YouTube ignores chapter lists with markers closer together than this
+const MIN_CHAPTER_MS = 10_000;
+// A reply that isn't the JSON we asked for gets one more try
+const SHOW_NOTES_ATTEMPTS = 2;
+const MAX_REQUEST_RETRIES = 5;
+
+export interface Chapter {
+  start: number;
+  title: string;
+}
+
+export interface GuestBio {
+  name: string;
+  // Drafted only from the episode, so it needs checking before it's published
+  bio: string;
+  questions: string[];
+}
+
+export interface PullQuote {
+  rank: number;
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface RejectedQuote {
+  speaker: string;
+  text: string;
+  reason: string;
+}
+
+export interface ShowNotes {
+  chapters: Chapter[];
+  // The chapters as YouTube expects them in a description: "0:00 Intro", one per line
+  youtube_chapters: string;
+  summary: string[];
+  guests: GuestBio[];
+  // Only quotes found word for word in the transcript, best first
+  quotes: PullQuote[];
+  rejected_quotes: RejectedQuote[];
+  provider: ProviderId;
+  model: string;
+  prompt_version: string;
+}
+
+export interface ShowNotesOptions {
+  speakerNames?: SpeakerNames;
+  quoteCount?: number;
+}
+
+interface RawShowNotes {
+  chapters: { timestamp: string; title: string }[];
+  summary: string[];
+  guests: GuestBio[];
+  quotes: { speaker: string; text: string }[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// YouTube drops the hour when there isn't one: 0:00, 12:30, 1:02:03
+export function formatChapterTimestamp(milliseconds: number): string {
+  const seconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+// Accepts H:MM:SS or M:SS, whichever the model wrote
+function parseChapterTimestamp(timestamp: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(timestamp.trim());
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+}
+
+// Typographic quotes and runs of whitespace are the only differences a verbatim
+// quote may have from the transcript; neither changes where the words fall
+function normalizeQuoteText(text: string): string {
+  return text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+}
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}']/u.test(char);
+
+// Where the quote occurs as whole words, so a fragment like "ing the model" doesn't count
+function findWholeWords(turn: string, quote: string): number {
+  for (let at = turn.indexOf(quote); at >= 0; at = turn.indexOf(quote, at + 1)) {
+    const end = at + quote.length;
+    const startsWord = !isWordChar(turn[at - 1]) || !isWordChar(quote[0]);
+    const endsWord = !isWordChar(turn[end]) || !isWordChar(quote[quote.length - 1]);
+    if (startsWord && endsWord) return at;
+  }
+  return -1;
+}
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+
+const field = (value: unknown, key: string): string => {
+  const item = (value as Record<string, unknown> | null)?.[key];
+  return typeof item === 'string' ? item.trim() : '';
+};
+
+// Reads the model's JSON, tolerating a Markdown fence or a sentence around it
+export function parseShowNotesResponse(text: string): RawShowNotes | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed.chapters) || !Array.isArray(parsed.quotes)) return null;
+
+  return {
+    chapters: parsed.chapters
+      .map(chapter => ({ timestamp: field(chapter, 'timestamp'), title: field(chapter, 'title') }))
+      .filter(chapter => chapter.title),
+    summary: stringList(parsed.summary),
+    guests: (Array.isArray(parsed.guests) ? parsed.guests : [])
+      .map(guest => ({ name: field(guest, 'name'), bio: field(guest, 'bio'), questions: stringList(guest?.questions) }))
+      .filter(guest => guest.name),
+    quotes: parsed.quotes
+      .map(quote => ({ speaker: field(quote, 'speaker'), text: field(quote, 'text') }))
+      .filter(quote => quote.text),
+  };
+}
+
+// One entry per word of a turn, timed by the transcriber's word timings when they
+// line up with the paragraph's text, otherwise by the paragraph itself
+function timedWords(paragraphs: Paragraph[]): { start: number; end: number }[] {
+  return paragraphs.flatMap(paragraph => {
+    const count = wordCount(paragraph.text);
+    const timings = paragraph.words?.length === count ? paragraph.words : null;
+    return Array.from({ length: count }, (_, i) => timings ? timings[i] : paragraph);
+  });
+}
+
+// Finds a quote word for word within one speaker turn and returns its exact times,
+// along with the quote as it should be published (without wrapping quote marks)
+export function locateQuote(
+  transcript: Transcript,
+  text: string
+): { speaker: string; text: string; start: number; end: number } | null {
+  const quote = normalizeQuoteText(text).replace(/^["']+|["']+$/g, '');
+  if (!quote) return null;
+
+  for (const segment of transcript.segments) {
+    const turn = segment.paragraphs.map(paragraph => normalizeQuoteText(paragraph.text)).join(' ');
+    const at = findWholeWords(turn, quote);
+    if (at < 0) continue;
+
+    const words = timedWords(segment.paragraphs);
+    // A quote starting right after punctuation, e.g. an opening bracket, still starts at that word
+    const first = Math.max(0, wordCount(turn.slice(0, at)) - (at > 0 && turn[at - 1] !== ' ' ? 1 : 0));
+    const last = Math.min(words.length - 1, first + wordCount(quote) - 1);
+
+    return { speaker: segment.speaker, text: quote, start: words[first].start, end: words[last].end };
+  }
+
+  return null;
+}
+
+// Snaps each chapter to the start of the turn it falls in, so markers land on
+// a speaker change, then drops markers YouTube would reject
+function toChapters(raw: RawShowNotes['chapters'], transcript: Transcript): Chapter[] {
+  const turnStarts = transcript.segments.map(segment => segment.start);
+  const end = Math.max(0, ...transcript.segments.map(segment => segment.end));
+
+  const snapped = raw
+    .map(({ timestamp, title }) => {
+      const time = parseChapterTimestamp(timestamp);
+      if (time === null || time > end) return null;
+      const start = turnStarts.filter(turnStart => turnStart <= time).pop() ?? 0;
+      return { start, title };
+    })
+    .filter((chapter): chapter is Chapter => chapter !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const chapters: Chapter[] = [];
+  for (const chapter of snapped) {
+    const previous = chapters[chapters.length - 1];
+    if (!previous) {
+      // YouTube only shows chapters when the first one starts at 0:00
+      chapters.push({ ...chapter, start: 0 });
+    } else if (chapter.start - previous.start >= MIN_CHAPTER_MS) {
+      chapters.push(chapter);
+    }
+  }
+  return chapters;
+}
+
+async function requestWithRetries(provider: EnhancementProvider, system: string, text: string): Promise<ProviderResponse> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.enhance({ system, text });
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= MAX_REQUEST_RETRIES) throw error;
+      await sleep((error as ProviderRequestError).retryAfterMs ?? backoffDelay(attempt));
+    }
+  }
+}
+
+export async function generateShowNotes(
+  transcript: Transcript,
+  provider: EnhancementProvider,
+  { speakerNames = {}, quoteCount = DEFAULT_QUOTE_COUNT }: ShowNotesOptions = {}
+): Promise<ShowNotes> {
+  const request = `Choose the ${quoteCount} best pull quotes.\n\n<transcript>\n${renderMarkdown(transcript, speakerNames)}\n</transcript>`;
+
+  // The whole transcript goes in one request, so it has to fit the model's context
+  // window with room left for the answer
+  const needed = estimateTokens(SHOW_NOTES_PROMPT) + estimateTokens(SHOW_NOTES_RETRY_INSTRUCTIONS) + estimateTokens(request);
+  const available = provider.limits.contextTokens - provider.config.maxTokens;
+  if (needed > available) {
+    throw new Error(
+      `The transcript is too long for show notes from ${provider.label}: about ${needed} tokens, ` +
+      `and ${provider.config.model} has room for ${Math.max(0, available)} besides its ${provider.config.maxTokens}-token answer`
+    );
+  }
+
+  let raw: RawShowNotes | null = null;
+  for (let attempt = 1; !raw && attempt <= SHOW_NOTES_ATTEMPTS; attempt++) {
+    const text = attempt === 1 ? request : `${SHOW_NOTES_RETRY_INSTRUCTIONS}\n\n${request}`;
+    const response = await requestWithRetries(provider, SHOW_NOTES_PROMPT, text);
+
+    // A cut-off answer is unreadable JSON, and asking again would cut it off in the same place
+    if (isTruncated(response.stopReason)) {
+      throw new Error(
+        `${provider.label} ran out of output tokens before finishing the show notes; ` +
+        `raise maxTokens above ${provider.config.maxTokens} and try again`
+      );
+    }
+
+    raw = parseShowNotesResponse(response.text);
+    if (!raw) {
+      console.warn(`Show notes from ${provider.label} could not be parsed (attempt ${attempt}):`, response.text.slice(0, 200));
+    }
+  }
+
+  if (!raw) {
+    throw new Error(`${provider.label} did not return show notes in the expected format`);
+  }
+
+  const quotes: PullQuote[] = [];
+  const rejected: RejectedQuote[] = [];
+  for (const quote of raw.quotes) {
+    const located = locateQuote(transcript, quote.text);
+    if (!located) {
+      rejected.push({ ...quote, reason: 'Not found word for word in the transcript' });
+    } else if (quotes.some(other => other.start === located.start && other.text === located.text)) {
+      rejected.push({ ...quote, reason: 'Duplicate of a higher-ranked quote' });
+    } else if (quotes.length < quoteCount) {
+      quotes.push({
+        rank: quotes.length + 1,
+        speaker: speakerNames[located.speaker] || located.speaker,
+        text: located.text,
+        start: located.start,
+        end: located.end,
+      });
+    }
+  }
+
+  const chapters = toChapters(raw.chapters, transcript);
+
+  return {
+    chapters,
+    youtube_chapters: chapters.map(chapter => `${formatChapterTimestamp(chapter.start)} ${chapter.title}`).join('\n'),
+    summary: raw.summary,
+    guests: raw.guests,
+    quotes,
+    rejected_quotes: rejected,
+    provider: provider.id,
+    model: provider.config.model,
+    prompt_version: SHOW_NOTES_PROMPT_VERSION,
+  };
+}
+
+// The whole set as one Markdown document, ready to paste into a CMS
+export function formatShowNotesMarkdown(notes: ShowNotes): string {
+  const sections = [
+    `## Summary\n\n${notes.summary.join('\n\n')}`,
+    `## Chapters\n\n${notes.youtube_chapters}`,
+    ...(notes.guests.length > 0
+      ? [`## Guests\n\n${notes.guests.map(guest =>
+          `### ${guest.name}\n\n${guest.bio}${guest.questions.length > 0 ? `\n\nTo confirm:\n${guest.questions.map(question => `- ${question}`).join('\n')}` : ''}`
+        ).join('\n\n')}`]
+      : []),
+    `## Pull quotes\n\n${notes.quotes.map(quote => `${quote.rank}. "${quote.text}" (${quote.speaker}, ${formatChapterTimestamp(quote.start)})`).join('\n')}`,
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
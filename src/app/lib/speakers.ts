@@ -0,0 +1,66 @@
+import { parseMarkdownTranscript } from './transcript';
+
+// Maps a detected speaker label (e.g. "SPEAKER A") to the name shown in output
+export type SpeakerNames = Record<string, string>;
+
+export interface DetectedSpeaker {
+  label: string;
+  firstTimestamp: string;
+  turns: number;
+  samples: string[];
+}
+
+export function detectSpeakers(markdown: string, sampleCount: number = 3): DetectedSpeaker[] {
+  const speakers = new Map<string, DetectedSpeaker & { candidates: string[] }>();
+
+  for (const segment of parseMarkdownTranscript(markdown)) {
+    let speaker = speakers.get(segment.speaker);
+    if (!speaker) {
+      speaker = {
+        label: segment.speaker,
+        firstTimestamp: segment.timestamp,
+        turns: 0,
+        samples: [],
+        candidates: []
+      };
+      speakers.set(segment.speaker, speaker);
+    }
+    speaker.turns++;
+    speaker.candidates.push(...segment.text.split('\n'));
+  }
+
+  return Array.from(speakers.values()).map(({ candidates, ...speaker }) => {
+    // Prefer utterances long enough to recognise the voice by what is said
+    const substantial = candidates.filter(text => text.split(/\s+/).length >= 8);
+    const samples = (substantial.length >= sampleCount ? substantial : candidates).slice(0, sampleCount);
+    return { ...speaker, samples };
+  });
+}
+
+export function normalizeSpeakerName(name: string): string {
+  // Keep only characters the speaker header pattern accepts, so mapped
+  // transcripts can still be parsed by parseMarkdownTranscript
+  const words = name
+    .replace(/[^A-Za-zÀ-ÖØ-öø-ÿ.'\-\s]/g, '')
+    .split(/\s+/)
+    .map(word => word.replace(/^[^A-Za-zÀ-ÖØ-öø-ÿ]+/, ''))
+    .filter(Boolean);
+  return words.slice(0, 5).join(' ');
+}
+
+// Reads a label-to-name map from a request body, as parsed JSON or a JSON string,
+// dropping anything that isn't a name
+export function parseSpeakerNames(value: unknown): SpeakerNames {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && !!entry[1].trim())
+  );
+}
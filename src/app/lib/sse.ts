@@ -0,0 +1,85 @@
+import type { EnhancementProgress, EnhancementResult } from './enhancement/types';
+
+export type EnhancementEvent =
+  | ({ type: 'progress' } & EnhancementProgress)
+  | ({ type: 'complete' } & EnhancementResult)
+  | { type: 'error'; error: string };
+
+// Streams the events emitted by `run` as server-sent events. A failure inside
+// `run` is reported as an `error` event, since the 200 status is already sent.
+export function createSseResponse(run: (emit: (event: EnhancementEvent) => void) => Promise<void>): Response {
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const emit = (event: EnhancementEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        await run(emit);
+      } catch (error) {
+        console.error('Stream error:', error);
+        emit({ type: 'error', error: error instanceof Error ? error.message : 'Internal server error' });
+      }
+
+      controller.close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+export interface EnhancementStreamHandlers {
+  onProgress?: (event: Extract<EnhancementEvent, { type: 'progress' }>) => void;
+  onComplete?: (event: Extract<EnhancementEvent, { type: 'complete' }>) => void;
+}
+
+// Reads an enhancement SSE response to the end, dispatching each event.
+// Rejects when the server sends an `error` event.
+export async function readEnhancementStream(response: Response, handlers: EnhancementStreamHandlers): Promise<void> {
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error('No response stream available');
+  }
+
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    
+    if (done) break;
+    
+    // Events can be split across reads, so only handle complete ones
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    
+    for (const line of events.flatMap(event => event.split('\n'))) {
+      if (!line.startsWith('data: ')) continue;
+
+      let data: EnhancementEvent;
+      try {
+        data = JSON.parse(line.slice(6));
+      } catch (parseError) {
+        console.warn('Failed to parse SSE data:', parseError);
+        continue;
+      }
+
+      if (data.type === 'progress') {
+        handlers.onProgress?.(data);
+      } else if (data.type === 'complete') {
+        handlers.onComplete?.(data);
+      } else if (data.type === 'error') {
+        throw new Error(data.error);
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+// A deliberately small template language for prompt profiles:
+//   {{name}}               inserts a value; dotted paths reach into objects, e.g. {{chunk.number}}
+//   {{#name}}...{{/name}}  keeps its contents only when the value is set (non-empty, non-zero, true)
+//   {{^name}}...{{/name}}  keeps its contents only when it isn't
+// Unknown names are an error rather than an empty string, so a typo in a
+// profile fails loudly instead of silently dropping part of the prompt.
+
+export type TemplateValues = { [name: string]: string | number | boolean | TemplateValues | null };
+
+const SECTION = /\{\{([#^])([\w.]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+function lookup(values: TemplateValues, name: string): TemplateValues[string] {
+  let current: TemplateValues[string] = values;
+  for (const key of name.split('.')) {
+    if (!current || typeof current !== 'object' || !(key in current)) {
+      throw new TemplateError(`Unknown template variable: ${name}`);
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+const isSet = (value: TemplateValues[string]) =>
+  value !== null && value !== false && value !== '' && value !== 0;
+
+function substitute(text: string, values: TemplateValues): string {
+  return text.replace(VARIABLE, (_, name: string) => {
+    const value = lookup(values, name);
+    if (value !== null && typeof value === 'object') {
+      throw new TemplateError(`Template variable ${name} is not a single value`);
+    }
+    return value === null ? '' : String(value);
+  });
+}
+
+// Sections are expanded and variables filled in a single pass, so inserted
+// values are never read as template syntax themselves
+export function renderTemplate(template: string, values: TemplateValues): string {
+  let output = '';
+  let position = 0;
+
+  for (const match of template.matchAll(SECTION)) {
+    const [whole, kind, name, body] = match;
+    output += substitute(template.slice(position, match.index), values);
+    if (isSet(lookup(values, name)) === (kind === '#')) {
+      output += renderTemplate(body, values);
+    }
+    position = match.index! + whole.length;
+  }
+
+  return output + substitute(template.slice(position), values);
+}
@@ -0,0 +1,230 @@
+import { CaptionWord, alignWordsToTranscript } from './captions';
+import { SpeakerNames, normalizeSpeakerName } from './speakers';
+import { TranscriptSegment, estimateTokens, formatTimestamp, parseMarkdownTranscript, parseTimestamp } from './transcript';
+
+// Bump when the shape changes incompatibly; see transcript.schema.json
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+export interface Word {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface Paragraph {
+  text: string;
+  start: number;
+  end: number;
+  // The transcriber's confidence for the whole utterance, 0-1
+  confidence?: number;
+  words?: Word[];
+}
+
+export interface Speaker {
+  // Label used in Markdown headers, e.g. "A"; also the key for speaker names
+  id: string;
+  name?: string;
+}
+
+export interface Segment {
+  speaker: string;
+  start: number;
+  end: number;
+  paragraphs: Paragraph[];
+}
+
+export interface Transcript {
+  version: typeof TRANSCRIPT_SCHEMA_VERSION;
+  speakers: Speaker[];
+  segments: Segment[];
+}
+
+export interface SourceUtterance {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+  words?: Word[];
+}
+
+function collectSpeakers(segments: Segment[]): Speaker[] {
+  const ids = Array.from(new Set(segments.map(segment => segment.speaker)));
+  return ids.map(id => ({ id }));
+}
+
+// Consecutive utterances by the same speaker form one segment, with one
+// paragraph per utterance, mirroring the Markdown the app has always produced
+export function fromUtterances(utterances: SourceUtterance[]): Transcript {
+  const segments: Segment[] = [];
+
+  for (const utterance of utterances) {
+    const paragraph: Paragraph = {
+      text: utterance.text,
+      start: utterance.start,
+      end: utterance.end,
+      ...(utterance.confidence !== undefined && { confidence: utterance.confidence }),
+      ...(utterance.words && utterance.words.length > 0 && { words: utterance.words }),
+    };
+    const current = segments[segments.length - 1];
+
+    if (current && current.speaker === utterance.speaker) {
+      current.paragraphs.push(paragraph);
+      current.end = utterance.end;
+    } else {
+      segments.push({
+        speaker: utterance.speaker,
+        start: utterance.start,
+        end: utterance.end,
+        paragraphs: [paragraph],
+      });
+    }
+  }
+
+  return { version: TRANSCRIPT_SCHEMA_VERSION, speakers: collectSpeakers(segments), segments };
+}
+
+// Builds the model from speaker-headed Markdown, e.g. an enhancer's output.
+// Given the source words, paragraphs get word timings aligned from them;
+// otherwise timings come from the header timestamps alone.
+export function fromMarkdown(markdown: string, sourceWords: CaptionWord[] = []): Transcript {
+  const parsed = parseMarkdownTranscript(markdown);
+  const aligned = sourceWords.length > 0 ? alignWordsToTranscript(markdown, sourceWords) : [];
+  let cursor = 0;
+
+  const segments = parsed.map((segment, i): Segment => {
+    const start = parseTimestamp(segment.timestamp);
+    const nextStart = i + 1 < parsed.length ? parseTimestamp(parsed[i + 1].timestamp) : start;
+
+    const paragraphs = segment.text.split('\n').map((text): Paragraph => {
+      const count = text.split(/\s+/).filter(Boolean).length;
+      const words = aligned.slice(cursor, cursor + count).map(({ text, start, end }) => ({ text, start, end }));
+      cursor += count;
+
+      return words.length > 0
+        ? { text, start: words[0].start, end: words[words.length - 1].end, words }
+        : { text, start, end: Math.max(start, nextStart) };
+    });
+
+    return {
+      speaker: segment.speaker,
+      start,
+      end: Math.max(start, paragraphs[paragraphs.length - 1].end),
+      paragraphs,
+    };
+  });
+
+  return { version: TRANSCRIPT_SCHEMA_VERSION, speakers: collectSpeakers(segments), segments };
+}
+
+export function renderMarkdown(transcript: Transcript | null, speakerNames: SpeakerNames = {}): string {
+  if (!transcript || transcript.segments.length === 0) {
+    return transcript ? 'No transcript available.' : '';
+  }
+
+  const names = new Map(transcript.speakers.map(speaker => [speaker.id, speaker.name]));
+
+  return transcript.segments
+    .map(segment => {
+      const name = normalizeSpeakerName(speakerNames[segment.speaker] || names.get(segment.speaker) || '');
+      const header = `${name || segment.speaker} ${formatTimestamp(segment.start)}`;
+      return [header, ...segment.paragraphs.map(paragraph => paragraph.text)].join('\n\n');
+    })
+    .join('\n\n\n');
+}
+
+// The same segments parseMarkdownTranscript would produce from the rendered Markdown
+export function toTranscriptSegments(transcript: Transcript): TranscriptSegment[] {
+  return transcript.segments.map(segment => {
+    const text = segment.paragraphs.map(paragraph => paragraph.text.trim()).join('\n');
+    return {
+      speaker: segment.speaker,
+      timestamp: formatTimestamp(segment.start),
+      text,
+      tokenCount: estimateTokens(text),
+    };
+  });
+}
+
+export function toCaptionWords(transcript: Transcript | null): CaptionWord[] {
+  if (!transcript) return [];
+
+  return transcript.segments.flatMap(segment =>
+    segment.paragraphs.flatMap(paragraph =>
+      (paragraph.words || []).map(word => ({
+        text: word.text,
+        start: word.start,
+        end: word.end,
+        speaker: segment.speaker,
+      }))
+    )
+  );
+}
+
+// Replaces one paragraph's text in place. The paragraph keeps its start and end;
+// its words are re-aligned to the old word timings, so edits stay seekable and
+// unchanged words keep their confidence. Emptying a paragraph removes it.
+export function editParagraph(
+  transcript: Transcript,
+  segmentIndex: number,
+  paragraphIndex: number,
+  text: string
+): Transcript {
+  const segments = transcript.segments
+    .map((segment, i): Segment => {
+      if (i !== segmentIndex) return segment;
+
+      const paragraphs = segment.paragraphs.flatMap((paragraph, j): Paragraph[] => {
+        if (j !== paragraphIndex) return [paragraph];
+
+        const trimmed = text.trim();
+        if (!trimmed) return [];
+        if (!paragraph.words?.length) return [{ ...paragraph, text: trimmed }];
+
+        const header = `${segment.speaker} ${formatTimestamp(paragraph.start)}`;
+        const previous = new Map(paragraph.words.map(word => [`${word.start}:${word.text}`, word]));
+        const words = alignWordsToTranscript(`${header}\n\n${trimmed}`, paragraph.words).map(({ text, start, end }): Word => {
+          const clamped = { text, start: Math.min(start, paragraph.end), end: Math.min(end, paragraph.end) };
+          const confidence = previous.get(`${start}:${text}`)?.confidence;
+          return confidence === undefined ? clamped : { ...clamped, confidence };
+        });
+
+        return [{ ...paragraph, text: trimmed, words }];
+      });
+
+      return { ...segment, paragraphs };
+    })
+    .filter(segment => segment.paragraphs.length > 0);
+
+  return { ...transcript, segments };
+}
+
+export function isTranscript(value: unknown): value is Transcript {
+  const candidate = value as Transcript | null;
+  return !!candidate
+    && candidate.version === TRANSCRIPT_SCHEMA_VERSION
+    && Array.isArray(candidate.speakers)
+    && Array.isArray(candidate.segments);
+}
+
+// Request bodies may carry the structured transcript or, for older clients, Markdown
+export function readTranscriptInput(structured: unknown, markdown: unknown): Transcript | null {
+  if (typeof structured === 'string') {
+    try {
+      structured = JSON.parse(structured);
+    } catch {
+      return null;
+    }
+  }
+
+  if (isTranscript(structured)) {
+    return structured;
+  }
+
+  if (typeof markdown === 'string' && markdown.trim()) {
+    return fromMarkdown(markdown);
+  }
+
+  return null;
+}
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseMarkdownTranscript } from './transcript';
+
+const turns = (markdown: string) => parseMarkdownTranscript(markdown).map(({ speaker, timestamp, text }) => ({ speaker, timestamp, text }));
+
+describe('parseMarkdownTranscript', () => {
+  const expected = [
+    { speaker: 'SPEAKER A', timestamp: '0:00:00', text: 'Um, welcome to the show.' },
+    { speaker: 'Dwarkesh Patel', timestamp: '0:00:04', text: 'Thanks for having me.' },
+  ];
+
+  it('reads headers followed by a blank line', () => {
+    const markdown = 'SPEAKER A 0:00:00\n\nUm, welcome to the show.\n\nDwarkesh Patel 0:00:04\n\nThanks for having me.';
+    assert.deepEqual(turns(markdown), expected);
+  });
+
+  it('reads headers with the text on the next line', () => {
+    const markdown = 'SPEAKER A 0:00:00\nUm, welcome to the show.\n\nDwarkesh Patel 0:00:04\nThanks for having me.\n';
+    assert.deepEqual(turns(markdown), expected);
+  });
+
+  it('keeps a line of prose ending in a time inside its paragraph', () => {
+    const markdown = 'SPEAKER A 0:00:00\n\nWe trained it for a long while\nthen it ran until 1:02:03\nand stopped.';
+    assert.deepEqual(turns(markdown), [
+      { speaker: 'SPEAKER A', timestamp: '0:00:00', text: 'We trained it for a long while\nthen it ran until 1:02:03\nand stopped.' },
+    ]);
+  });
+});
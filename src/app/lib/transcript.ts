@@ -0,0 +1,83 @@
+export interface TranscriptSegment {
+  speaker: string;
+  timestamp: string;
+  text: string;
+  tokenCount: number;
+}
+
+// Match speaker and timestamp pattern: A 0:00:00, SPEAKER A 0:00:00 or a mapped
+// name such as Dwarkesh Patel 0:00:00 (up to five words, mixed case allowed)
+export const SPEAKER_HEADER_PATTERN =
+  /^([A-Za-zÀ-ÖØ-öø-ÿ][A-Za-zÀ-ÖØ-öø-ÿ.'-]*(?:\s+[A-Za-zÀ-ÖØ-öø-ÿ.'-]+){0,4})\s+(\d+:\d+:\d+)$/;
+
+// Matches lines[index] as a speaker header only when it starts a paragraph, after a
+// blank line or at the start of the text, so a line of prose that wraps onto one
+// ending in a time isn't taken for a new turn. The text may follow on the next line
+export function matchSpeakerHeader(lines: string[], index: number): RegExpMatchArray | null {
+  const startsParagraph = index === 0 || !lines[index - 1].trim();
+  return startsParagraph ? lines[index].trim().match(SPEAKER_HEADER_PATTERN) : null;
+}
+
+export function formatTimestamp(milliseconds: number): string {
+  const seconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+export function parseTimestamp(timestamp: string): number {
+  const [hours, minutes, seconds] = timestamp.split(':').map(Number);
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+export function estimateTokens(text: string): number {
+  // Rough estimation: ~4 characters per token
+  return Math.ceil(text.length / 4);
+}
+
+export function parseMarkdownTranscript(markdown: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const lines = markdown.split(/\r?\n/);
+  
+  let currentSpeaker = '';
+  let currentTimestamp = '';
+  let currentText = '';
+  
+  for (let i = 0; i < lines.length; i++) {
+    const cleanLine = lines[i].trim();
+    const speakerMatch = cleanLine ? matchSpeakerHeader(lines, i) : null;
+    
+    if (speakerMatch) {
+      // Save previous segment if exists
+      if (currentSpeaker && currentText.trim()) {
+        segments.push({
+          speaker: currentSpeaker,
+          timestamp: currentTimestamp,
+          text: currentText.trim(),
+          tokenCount: estimateTokens(currentText.trim())
+        });
+      }
+      
+      // Start new segment
+      currentSpeaker = speakerMatch[1];
+      currentTimestamp = speakerMatch[2];
+      currentText = '';
+    } else if (cleanLine && currentSpeaker) {
+      // Add text to current segment
+      currentText += cleanLine + '\n';
+    }
+  }
+  
+  // Add final segment
+  if (currentSpeaker && currentText.trim()) {
+    segments.push({
+      speaker: currentSpeaker,
+      timestamp: currentTimestamp,
+      text: currentText.trim(),
+      tokenCount: estimateTokens(currentText.trim())
+    });
+  }
+  
+  return segments;
+}
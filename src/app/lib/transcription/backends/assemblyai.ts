@@ -0,0 +1,42 @@
+import { AssemblyAIResponse, fetchTranscript, requestTranscript, toTranscript, uploadAudio } from '../../assemblyai';
+import { Transcriber, TranscriptionOutcome, TranscriptionRequest } from '../types';
+
+export function isAssemblyAIConfigured(): boolean {
+  return !!process.env.ASSEMBLY_AI_API_KEY;
+}
+
+export function fromAssemblyAIResponse(result: AssemblyAIResponse): TranscriptionOutcome {
+  if (result.status === 'queued' || result.status === 'processing') {
+    return { status: result.status, externalId: result.id };
+  }
+  if (result.status === 'error') {
+    return { status: 'error', error: result.error || 'Transcription failed' };
+  }
+  return { status: 'completed', transcript: toTranscript(result), rawText: result.text, response: result };
+}
+
+// Upload, then request a transcript that is polled for or reported by webhook
+export function createAssemblyAITranscriber(): Transcriber {
+  const apiKey = () => {
+    if (!process.env.ASSEMBLY_AI_API_KEY) {
+      throw new Error('AssemblyAI API key not configured');
+    }
+    return process.env.ASSEMBLY_AI_API_KEY;
+  };
+
+  return {
+    id: 'assemblyai',
+    label: 'AssemblyAI',
+    diarization: true,
+
+    async transcribe({ audio, glossary, webhook }: TranscriptionRequest): Promise<TranscriptionOutcome> {
+      const uploadUrl = await uploadAudio(apiKey(), audio);
+      const id = await requestTranscript(apiKey(), uploadUrl, webhook, glossary);
+      return { status: 'queued', externalId: id };
+    },
+
+    async poll(externalId: string): Promise<TranscriptionOutcome> {
+      return fromAssemblyAIResponse(await fetchTranscript(apiKey(), externalId));
+    },
+  };
+}
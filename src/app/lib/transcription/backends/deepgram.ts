@@ -0,0 +1,135 @@
+import { toCustomSpelling, toWordBoost } from '../../glossary';
+import { SourceUtterance, Transcript, fromUtterances } from '../../transcript-model';
+import { Transcriber, TranscriptionOutcome, TranscriptionRequest } from '../types';
+
+// Deepgram caps keyterm prompting at roughly 500 tokens
+const MAX_KEYTERMS = 100;
+
+export interface DeepgramWord {
+  word: string;
+  // Present with smart_format/punctuate; preferred over the bare word
+  punctuated_word?: string;
+  start: number;
+  end: number;
+  confidence: number;
+  speaker?: number;
+}
+
+export interface DeepgramUtterance {
+  start: number;
+  end: number;
+  confidence: number;
+  transcript: string;
+  speaker?: number;
+  words: DeepgramWord[];
+}
+
+export interface DeepgramResponse {
+  results: {
+    channels: { alternatives: { transcript: string; words: DeepgramWord[] }[] }[];
+    utterances?: DeepgramUtterance[];
+  };
+}
+
+export function isDeepgramConfigured(): boolean {
+  return !!process.env.DEEPGRAM_API_KEY;
+}
+
+// Deepgram numbers speakers from 0; match AssemblyAI's A, B, C...
+export function speakerLabel(speaker = 0): string {
+  return speaker < 26 ? String.fromCharCode(65 + speaker) : `S${speaker + 1}`;
+}
+
+const toMs = (seconds: number) => Math.round(seconds * 1000);
+
+function toUtterance(speaker: number | undefined, words: DeepgramWord[], text: string, confidence?: number): SourceUtterance {
+  return {
+    speaker: speakerLabel(speaker),
+    start: toMs(words[0].start),
+    end: toMs(words[words.length - 1].end),
+    text,
+    ...(confidence !== undefined && { confidence }),
+    words: words.map(word => ({
+      text: word.punctuated_word || word.word,
+      start: toMs(word.start),
+      end: toMs(word.end),
+      confidence: word.confidence,
+    })),
+  };
+}
+
+// Without utterances=true the words come back as one list; split it on speaker changes
+function utterancesFromWords(words: DeepgramWord[]): SourceUtterance[] {
+  const runs: DeepgramWord[][] = [];
+  for (const word of words) {
+    const run = runs[runs.length - 1];
+    if (run && run[0].speaker === word.speaker) run.push(word);
+    else runs.push([word]);
+  }
+  return runs.map(run => toUtterance(run[0].speaker, run, run.map(word => word.punctuated_word || word.word).join(' ')));
+}
+
+export function fromDeepgramResponse(response: DeepgramResponse): Transcript {
+  const utterances = response.results.utterances;
+  if (utterances) {
+    return fromUtterances(
+      utterances
+        .filter(utterance => utterance.words.length > 0)
+        .map(utterance => toUtterance(utterance.speaker, utterance.words, utterance.transcript, utterance.confidence))
+    );
+  }
+  return fromUtterances(utterancesFromWords(response.results.channels[0]?.alternatives[0]?.words || []));
+}
+
+// Pre-recorded audio is transcribed in a single synchronous request
+export function createDeepgramTranscriber(): Transcriber {
+  const baseUrl = (process.env.DEEPGRAM_BASE_URL || 'https://api.deepgram.com').replace(/\/$/, '');
+  const model = process.env.DEEPGRAM_MODEL || 'nova-3';
+
+  return {
+    id: 'deepgram',
+    label: 'Deepgram',
+    diarization: true,
+
+    async transcribe({ audio, glossary }: TranscriptionRequest): Promise<TranscriptionOutcome> {
+      if (!process.env.DEEPGRAM_API_KEY) {
+        throw new Error('Deepgram API key not configured');
+      }
+
+      const params = new URLSearchParams({
+        model,
+        diarize: 'true',
+        punctuate: 'true',
+        smart_format: 'true',
+        utterances: 'true',
+      });
+      for (const term of toWordBoost(glossary).slice(0, MAX_KEYTERMS)) {
+        params.append('keyterm', term);
+      }
+      for (const { from, to } of toCustomSpelling(glossary)) {
+        for (const wrong of from) params.append('replace', `${wrong}:${to}`);
+      }
+
+      const response = await fetch(`${baseUrl}/v1/listen?${params}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Token ${process.env.DEEPGRAM_API_KEY}`,
+          'Content-Type': audio.type || 'application/octet-stream',
+        },
+        body: audio,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Deepgram transcription failed: ${response.status}`);
+      }
+
+      const result: DeepgramResponse = await response.json();
+      return {
+        status: 'completed',
+        transcript: fromDeepgramResponse(result),
+        rawText: result.results.channels[0]?.alternatives[0]?.transcript || '',
+        response: result,
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { Transcriber, TranscriberId, TranscriberInfo } from '../types';
+import { createAssemblyAITranscriber, isAssemblyAIConfigured } from './assemblyai';
+import { createDeepgramTranscriber, isDeepgramConfigured } from './deepgram';
+import {
+  createLocalWhisperTranscriber,
+  createOpenAIWhisperTranscriber,
+  isLocalWhisperConfigured,
+  isOpenAIWhisperConfigured,
+} from './whisper';
+
+export const DEFAULT_TRANSCRIBER: TranscriberId = 'assemblyai';
+
+const TRANSCRIBERS: Record<TranscriberId, {
+  create: () => Transcriber;
+  isConfigured: () => boolean;
+}> = {
+  assemblyai: { create: createAssemblyAITranscriber, isConfigured: isAssemblyAIConfigured },
+  deepgram: { create: createDeepgramTranscriber, isConfigured: isDeepgramConfigured },
+  openai: { create: createOpenAIWhisperTranscriber, isConfigured: isOpenAIWhisperConfigured },
+  local: { create: createLocalWhisperTranscriber, isConfigured: isLocalWhisperConfigured },
+};
+
+export function isTranscriberId(value: unknown): value is TranscriberId {
+  return typeof value === 'string' && value in TRANSCRIBERS;
+}
+
+export function createTranscriber(id: TranscriberId): Transcriber {
+  return TRANSCRIBERS[id].create();
+}
+
+export function isTranscriberConfigured(id: TranscriberId): boolean {
+  return TRANSCRIBERS[id].isConfigured();
+}
+
+export function listConfiguredTranscribers(): TranscriberInfo[] {
+  return (Object.keys(TRANSCRIBERS) as TranscriberId[])
+    .filter(isTranscriberConfigured)
+    .map(id => {
+      const { label, diarization } = createTranscriber(id);
+      return { id, label, diarization };
+    });
+}
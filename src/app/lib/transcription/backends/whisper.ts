@@ -0,0 +1,183 @@
+import { toWordBoost } from '../../glossary';
+import { SourceUtterance, Transcript, Word, fromUtterances } from '../../transcript-model';
+import { Transcriber, TranscriberId, TranscriptionOutcome, TranscriptionRequest } from '../types';
+
+// Whisper has no diarization, so everything is attributed to one speaker
+const WHISPER_SPEAKER = 'A';
+// Whisper segments are a sentence or two; join them into paragraphs at pauses
+const PARAGRAPH_PAUSE_MS = 1500;
+const MAX_PARAGRAPH_MS = 60_000;
+// The OpenAI API rejects larger uploads; local servers have no such limit
+const OPENAI_MAX_UPLOAD_MB = 25;
+// Whisper only reads the last 224 tokens of its prompt
+const MAX_PROMPT_CHARS = 800;
+
+export interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+  // whisper.cpp reports a per-word probability; the OpenAI API does not
+  probability?: number;
+}
+
+export interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  // whisper.cpp nests words in their segment
+  words?: WhisperWord[];
+}
+
+// The verbose_json shape shared by the OpenAI API, faster-whisper servers and whisper.cpp
+export interface WhisperResponse {
+  text: string;
+  segments?: WhisperSegment[];
+  // The OpenAI API lists words at the top level
+  words?: WhisperWord[];
+}
+
+interface WhisperOptions {
+  id: TranscriberId;
+  label: string;
+  url: string;
+  apiKey?: string;
+  model?: string;
+  maxUploadMb?: number;
+}
+
+// OPENAI_BASE_URL and OPENAI_API_KEY belong to the enhancer, which may be a local
+// server, so Whisper has its own pair and borrows the key only when the enhancer
+// talks to OpenAI itself
+function openAITranscriptionKey(): string | undefined {
+  return process.env.OPENAI_TRANSCRIPTION_API_KEY || (process.env.OPENAI_BASE_URL ? undefined : process.env.OPENAI_API_KEY);
+}
+
+export function isOpenAIWhisperConfigured(): boolean {
+  return !!openAITranscriptionKey();
+}
+
+export function isLocalWhisperConfigured(): boolean {
+  return !!process.env.LOCAL_WHISPER_URL;
+}
+
+const toMs = (seconds: number) => Math.round(seconds * 1000);
+
+// whisper.cpp includes timing markers such as [_BEG_] among its words
+const isSpokenWord = (word: WhisperWord) => word.word.trim() !== '' && !/^\[_.*_\]$/.test(word.word.trim());
+
+function groupSegments(segments: WhisperSegment[]): WhisperSegment[][] {
+  const groups: WhisperSegment[][] = [];
+  for (const segment of segments) {
+    const group = groups[groups.length - 1];
+    const last = group?.[group.length - 1];
+    if (
+      group &&
+      toMs(segment.start - last.end) < PARAGRAPH_PAUSE_MS &&
+      toMs(segment.end - group[0].start) <= MAX_PARAGRAPH_MS
+    ) {
+      group.push(segment);
+    } else {
+      groups.push([segment]);
+    }
+  }
+  return groups;
+}
+
+export function fromWhisperResponse(response: WhisperResponse): Transcript {
+  const segments = (response.segments || []).filter(segment => segment.text.trim());
+  const topLevelWords = (response.words || []).filter(isSpokenWord);
+  const groups = groupSegments(segments);
+
+  return fromUtterances(groups.map((group, i): SourceUtterance => {
+    const start = group[0].start;
+    const nextStart = groups[i + 1]?.[0].start ?? Infinity;
+    const words: WhisperWord[] = group.some(segment => segment.words)
+      ? group.flatMap(segment => (segment.words || []).filter(isSpokenWord))
+      : topLevelWords.filter(word => word.start >= start && word.start < nextStart);
+
+    // exp(mean log-probability) is the closest Whisper gets to a confidence score
+    const scored = group.filter(segment => segment.avg_logprob !== undefined);
+    const confidence = scored.length > 0
+      ? scored.reduce((sum, segment) => sum + Math.exp(segment.avg_logprob!), 0) / scored.length
+      : undefined;
+
+    return {
+      speaker: WHISPER_SPEAKER,
+      start: toMs(start),
+      end: toMs(group[group.length - 1].end),
+      text: group.map(segment => segment.text.trim()).join(' '),
+      ...(confidence !== undefined && { confidence }),
+      words: words.map((word): Word => ({
+        text: word.word.trim(),
+        start: toMs(word.start),
+        end: toMs(word.end),
+        ...(word.probability !== undefined && { confidence: word.probability }),
+      })),
+    };
+  }));
+}
+
+function createWhisperTranscriber({ id, label, url, apiKey, model, maxUploadMb }: WhisperOptions): Transcriber {
+  return {
+    id,
+    label,
+    diarization: false,
+
+    async transcribe({ audio, fileName, glossary }: TranscriptionRequest): Promise<TranscriptionOutcome> {
+      if (maxUploadMb && audio.size > maxUploadMb * 1024 * 1024) {
+        throw new Error(`${label} accepts files up to ${maxUploadMb} MB; turn on AUDIO_PREPROCESS or pick another transcriber`);
+      }
+
+      const form = new FormData();
+      form.append('file', audio, fileName);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'segment');
+      form.append('timestamp_granularities[]', 'word');
+      if (model) form.append('model', model);
+
+      // Listing the glossary terms in the prompt nudges Whisper towards their spelling
+      const prompt = toWordBoost(glossary).join(', ').slice(0, MAX_PROMPT_CHARS);
+      if (prompt) form.append('prompt', prompt);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        // Local servers usually run without a key
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+        body: form,
+      });
+
+      if (!response.ok) {
+        throw new Error(`${label} transcription failed: ${response.status}`);
+      }
+
+      const result: WhisperResponse = await response.json();
+      return { status: 'completed', transcript: fromWhisperResponse(result), rawText: result.text.trim(), response: result };
+    },
+  };
+}
+
+export function createOpenAIWhisperTranscriber(): Transcriber {
+  const baseUrl = (process.env.OPENAI_TRANSCRIPTION_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  return createWhisperTranscriber({
+    id: 'openai',
+    label: 'OpenAI Whisper',
+    url: `${baseUrl}/audio/transcriptions`,
+    apiKey: openAITranscriptionKey(),
+    // Word timestamps need whisper-1; the gpt-4o transcribe models only return text
+    model: process.env.OPENAI_TRANSCRIBE_MODEL || 'whisper-1',
+    maxUploadMb: OPENAI_MAX_UPLOAD_MB,
+  });
+}
+
+// LOCAL_WHISPER_URL is the full endpoint, e.g. http://localhost:8080/inference for
+// whisper.cpp or http://localhost:8000/v1/audio/transcriptions for faster-whisper-server
+export function createLocalWhisperTranscriber(): Transcriber {
+  return createWhisperTranscriber({
+    id: 'local',
+    label: 'Local Whisper',
+    url: process.env.LOCAL_WHISPER_URL || 'http://localhost:8080/inference',
+    apiKey: process.env.LOCAL_WHISPER_API_KEY,
+    model: process.env.LOCAL_WHISPER_MODEL,
+  });
+}
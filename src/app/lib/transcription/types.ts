@@ -0,0 +1,40 @@
+import type { WebhookOptions } from '../assemblyai';
+import type { Glossary } from '../glossary';
+import type { Transcript } from '../transcript-model';
+
+export type TranscriberId = 'assemblyai' | 'deepgram' | 'openai' | 'local';
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  fileName: string;
+  glossary: Glossary;
+  // Backends that support callbacks use this instead of being polled
+  webhook?: WebhookOptions;
+}
+
+export type FinishedTranscription =
+  // `response` is the backend's own payload, kept in the library as it arrived
+  | { status: 'completed'; transcript: Transcript; rawText: string; response?: unknown }
+  | { status: 'error'; error: string };
+
+// Asynchronous backends answer with an id to poll; synchronous ones with the transcript
+export type TranscriptionOutcome =
+  | { status: 'queued'; externalId: string }
+  | { status: 'processing'; externalId: string }
+  | FinishedTranscription;
+
+export interface Transcriber {
+  id: TranscriberId;
+  label: string;
+  // False for Whisper, which puts every word under a single speaker
+  diarization: boolean;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionOutcome>;
+  // Only for backends whose transcribe() can return 'queued'
+  poll?(externalId: string): Promise<TranscriptionOutcome>;
+}
+
+export interface TranscriberInfo {
+  id: TranscriberId;
+  label: string;
+  diarization: boolean;
+}
@@ -0,0 +1,177 @@
+import {
+  Chunk,
+  ChunkOptions,
+  ChunkSegment,
+  createChunks,
+  formatChunkRequest,
+  stripContextEcho,
+} from './enhancement/chunking';
+import { runScheduled } from './enhancement/scheduler';
+import { EnhancementProvider, ProviderId } from './enhancement/types';
+import { renderTemplate } from './template';
+import { TranscriptSegment, estimateTokens, formatTimestamp, parseMarkdownTranscript } from './transcript';
+import { Paragraph, Transcript, Word } from './transcript-model';
+import {
+  TRANSLATION_CONTEXT_INSTRUCTIONS,
+  TRANSLATION_PROMPT,
+  TRANSLATION_PROMPT_VERSION,
+  TRANSLATION_RETRY_INSTRUCTIONS,
+} from './translation-prompts';
+
+// A chunk whose header lines don't come back intact is asked for once more before it is left untranslated
+const TRANSLATION_ATTEMPTS = 2;
+export const MAX_LANGUAGE_LENGTH = 40;
+
+export interface TranslationOptions {
+  // The target language as a name the model understands, e.g. "Spanish" or "Brazilian Portuguese"
+  language: string;
+  // Names, brands and terms to leave as they are
+  keepTerms?: string[];
+  chunking?: ChunkOptions;
+}
+
+export interface MissingTerm {
+  // Start of the paragraph, which the term appears in but its translation doesn't
+  start: number;
+  term: string;
+}
+
+export interface TranslationResult {
+  language: string;
+  // Same speakers, segments and paragraph times as the source, so it can be captioned as is
+  structured_transcript: Transcript;
+  chunks_processed: number;
+  // Chunks kept in the source language because the translation didn't line up with them
+  untranslated_chunks: number[];
+  missing_terms: MissingTerm[];
+  provider: ProviderId;
+  model: string;
+  prompt_version: string;
+}
+
+// Every paragraph is its own block under its own header, which is what lets the
+// model's answer be matched back to the source paragraph by paragraph
+function toParagraphSegments(transcript: Transcript): { segment: TranscriptSegment; at: [number, number] }[] {
+  return transcript.segments.flatMap((segment, i) => segment.paragraphs
+    .map((paragraph, j) => ({ paragraph, at: [i, j] as [number, number] }))
+    .filter(({ paragraph }) => paragraph.text.trim())
+    .map(({ paragraph, at }) => ({
+      segment: {
+        speaker: segment.speaker,
+        timestamp: formatTimestamp(paragraph.start),
+        text: paragraph.text.trim(),
+        tokenCount: estimateTokens(paragraph.text),
+      },
+      at,
+    })));
+}
+
+// One translated text per block of the chunk, or null when the headers don't match the source's
+function readTranslatedChunk(output: string, chunk: Chunk): string[] | null {
+  const blocks = parseMarkdownTranscript(stripContextEcho(output));
+  const matches = blocks.length === chunk.segments.length && blocks.every((block, i) =>
+    block.speaker === chunk.segments[i].speaker && block.timestamp === chunk.segments[i].timestamp
+  );
+  return matches ? blocks.map(block => block.text.replace(/\s+/g, ' ').trim()) : null;
+}
+
+// Translations have no word timings of their own; spreading the words evenly
+// over the paragraph is close enough for captions
+function spreadWords(text: string, start: number, end: number): Word[] {
+  const texts = text.split(/\s+/).filter(Boolean);
+  const step = (end - start) / (texts.length || 1);
+  return texts.map((word, i) => ({
+    text: word,
+    start: Math.round(start + i * step),
+    end: Math.round(start + (i + 1) * step),
+  }));
+}
+
+const includesTerm = (text: string, term: string) => text.toLowerCase().includes(term.toLowerCase());
+
+export async function translateTranscript(
+  transcript: Transcript,
+  provider: EnhancementProvider,
+  { language, keepTerms = [], chunking }: TranslationOptions
+): Promise<TranslationResult> {
+  const units = toParagraphSegments(transcript);
+
+  if (units.length === 0) {
+    throw new Error('Could not parse transcript segments');
+  }
+
+  const chunks = createChunks(units.map(unit => unit.segment), chunking);
+  const system = renderTemplate(TRANSLATION_PROMPT, { language, keep: keepTerms.map(term => `- ${term}`).join('\n') });
+  const untranslated: number[] = [];
+
+  const translated = await runScheduled(chunks, {
+    limits: provider.limits,
+    // A translation is about as long as its source
+    cost: chunk => estimateTokens(system) + estimateTokens(formatChunkRequest(chunk, TRANSLATION_CONTEXT_INSTRUCTIONS)) + chunk.totalTokens,
+
+    run: async (chunk, i, charge) => {
+      const request = formatChunkRequest(chunk, TRANSLATION_CONTEXT_INSTRUCTIONS);
+
+      for (let attempt = 1; ; attempt++) {
+        if (attempt > 1) await charge();
+        const text = attempt === 1 ? request : `${TRANSLATION_RETRY_INSTRUCTIONS}\n\n${request}`;
+        const response = await provider.enhance({ system, text });
+        const blocks = readTranslatedChunk(response.text, chunk);
+        if (blocks) return blocks;
+
+        if (attempt >= TRANSLATION_ATTEMPTS) {
+          console.warn(`Translated chunk ${i + 1} from ${provider.label} didn't keep its headers, leaving it untranslated`);
+          untranslated.push(i);
+          return chunk.segments.map(segment => segment.text);
+        }
+        console.warn(`Translated chunk ${i + 1} from ${provider.label} didn't keep its headers, retrying`);
+      }
+    },
+
+    fallback: (chunk, i, error) => {
+      console.error(`Error translating chunk ${i + 1} with ${provider.label}:`, error);
+      untranslated.push(i);
+      return chunk.segments.map(segment => segment.text);
+    },
+  });
+
+  // Long paragraphs were split across blocks; the pieces after the first are marked
+  // as continuations and are joined back onto the paragraph they came from
+  const pieces: { segment: ChunkSegment; text: string }[] = chunks.flatMap((chunk, i) =>
+    chunk.segments.map((segment, j) => ({ segment, text: translated[i][j] }))
+  );
+  const texts: string[] = [];
+  for (const { segment, text } of pieces) {
+    if (segment.continuation && texts.length > 0) texts[texts.length - 1] += ` ${text}`;
+    else texts.push(text);
+  }
+
+  const byParagraph = new Map(units.map((unit, i) => [unit.at.join(':'), texts[i]]));
+  const missingTerms: MissingTerm[] = [];
+
+  const segments = transcript.segments.map((segment, i) => ({
+    ...segment,
+    paragraphs: segment.paragraphs.map((paragraph, j): Paragraph => {
+      const text = byParagraph.get(`${i}:${j}`);
+      if (text === undefined) return { text: paragraph.text, start: paragraph.start, end: paragraph.end };
+
+      for (const term of keepTerms) {
+        if (includesTerm(paragraph.text, term) && !includesTerm(text, term)) {
+          missingTerms.push({ start: paragraph.start, term });
+        }
+      }
+      return { text, start: paragraph.start, end: paragraph.end, words: spreadWords(text, paragraph.start, paragraph.end) };
+    }),
+  }));
+
+  return {
+    language,
+    structured_transcript: { ...transcript, segments },
+    chunks_processed: chunks.length,
+    untranslated_chunks: untranslated.sort((a, b) => a - b),
+    missing_terms: missingTerms,
+    provider: provider.id,
+    model: provider.config.model,
+    prompt_version: TRANSLATION_PROMPT_VERSION,
+  };
+}
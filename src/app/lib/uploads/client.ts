@@ -0,0 +1,104 @@
+import type { UploadInfo } from './store';
+
+// Upload ids by file fingerprint, so a reload or a dropped connection resumes
+// the same upload instead of starting over
+const UPLOADS_KEY = 'transcribe.uploads';
+const MAX_PART_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 1000;
+
+type StoredUploads = Record<string, string>;
+
+const fingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+function loadStoredUploads(): StoredUploads {
+  try {
+    return JSON.parse(localStorage.getItem(UPLOADS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function rememberUpload(file: File, id: string | null) {
+  const stored = loadStoredUploads();
+  if (id) stored[fingerprint(file)] = id;
+  else delete stored[fingerprint(file)];
+  localStorage.setItem(UPLOADS_KEY, JSON.stringify(stored));
+}
+
+async function fetchUpload(id: string): Promise<UploadInfo | null> {
+  const response = await fetch(`/api/uploads/${id}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to check upload status');
+  return response.json();
+}
+
+async function createUpload(file: File): Promise<UploadInfo> {
+  const response = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ fileName: file.name, fileSize: file.size, mimeType: file.type }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to start upload');
+  }
+
+  return response.json();
+}
+
+async function sendPart(upload: UploadInfo, file: File): Promise<UploadInfo> {
+  const offset = upload.receivedBytes;
+  const response = await fetch(`/api/uploads/${upload.id}?offset=${offset}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+    },
+    body: file.slice(offset, offset + upload.partSize),
+  });
+
+  // The server already has more (or less) than we thought; carry on from there
+  if (response.status === 409) {
+    const { receivedBytes } = await response.json();
+    return { ...upload, receivedBytes };
+  }
+
+  if (!response.ok) {
+    throw new Error(`Upload failed at byte ${offset}`);
+  }
+
+  return response.json();
+}
+
+// Sends the file in parts, resuming a previous upload of the same file if the
+// server still has it. Resolves with the upload id once every byte has arrived.
+export async function uploadFile(file: File, onProgress?: (receivedBytes: number, totalBytes: number) => void): Promise<string> {
+  const storedId = loadStoredUploads()[fingerprint(file)];
+  let upload = (storedId && (await fetchUpload(storedId))) || (await createUpload(file));
+  rememberUpload(file, upload.id);
+
+  let attempts = 0;
+  while (!upload.complete) {
+    onProgress?.(upload.receivedBytes, file.size);
+
+    try {
+      upload = await sendPart(upload, file);
+      attempts = 0;
+    } catch (error) {
+      if (++attempts >= MAX_PART_ATTEMPTS) throw error;
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempts));
+
+      // The part may have landed before the connection dropped
+      const current = await fetchUpload(upload.id);
+      if (!current) {
+        rememberUpload(file, null);
+        throw new Error('Upload expired on the server; please try again');
+      }
+      upload = current;
+    }
+  }
+
+  onProgress?.(file.size, file.size);
+  return upload.id;
+}
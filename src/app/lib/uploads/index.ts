@@ -0,0 +1,63 @@
+import busboy from 'busboy';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { getLibraryStore } from '../library';
+import { UploadInfo, UploadStore } from './store';
+
+export * from './store';
+
+const globalForUploads = globalThis as unknown as { uploadStore?: UploadStore };
+
+export function getUploadStore(): UploadStore {
+  if (!globalForUploads.uploadStore) {
+    globalForUploads.uploadStore = new UploadStore(
+      process.env.UPLOAD_DIR || path.join(process.cwd(), '.data', 'uploads'),
+      () => getLibraryStore().uploadIds()
+    );
+  }
+  return globalForUploads.uploadStore;
+}
+
+// Parses a multipart body as it arrives: the `fileField` part is written
+// straight to a new upload, and the other fields are returned as `input`
+async function readMultipartUpload(
+  request: Request,
+  fileField: string
+): Promise<{ upload: UploadInfo | null; input: Record<string, unknown> }> {
+  const input: Record<string, unknown> = {};
+  let upload: Promise<UploadInfo> | null = null;
+
+  const parser = busboy({ headers: Object.fromEntries(request.headers) });
+  parser.on('field', (name, value) => {
+    input[name] = value;
+  });
+  parser.on('file', (name, file, { filename, mimeType }) => {
+    if (name !== fileField || upload) {
+      file.resume();
+      return;
+    }
+    upload = getUploadStore().createFromStream(filename, mimeType, file);
+    // Awaited below, once the whole body has been read
+    upload.catch(() => {});
+  });
+
+  await pipeline(Readable.fromWeb(request.body as ReadableStream<Uint8Array>), parser);
+  return { upload: upload ? await upload : null, input };
+}
+
+// Reads the upload a request refers to: JSON with an `uploadId`, or multipart
+// form data carrying the whole file as `fileField`. Other fields are returned as `input`.
+export async function readUploadRequest(
+  request: Request,
+  fileField = 'file'
+): Promise<{ upload: UploadInfo | null; input: Record<string, unknown> }> {
+  if (request.headers.get('content-type')?.includes('multipart/form-data') && request.body) {
+    return readMultipartUpload(request, fileField);
+  }
+
+  const input = await request.json();
+  const upload = typeof input.uploadId === 'string' ? await getUploadStore().get(input.uploadId) : null;
+  return { upload, input };
+}
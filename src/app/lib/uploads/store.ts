@@ -0,0 +1,244 @@
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { PreprocessedAudioFile, preprocessAudioFile } from '../media/preprocess';
+
+// Upload ids are generated server-side, but never let one escape the directory
+const UPLOAD_ID_PATTERN = /^[\w-]+$/;
+
+// Clients send parts of this size; the server accepts some slack for the last one
+export const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PART_SIZE = 2 * UPLOAD_PART_SIZE;
+
+// Unfinished uploads nobody has touched for a day are removed the next time one is
+// created. Finished ones get a week, long enough for the jobs, enhancements and clip
+// renders made from them, and are kept past that while a library entry uses them.
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const FINISHED_UPLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface UploadInfo {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  // Bytes stored so far; an interrupted upload resumes from here
+  receivedBytes: number;
+  partSize: number;
+  complete: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface UploadRecord {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  createdAt: string;
+  // The preprocessed audio, made once and shared by every job and enhancement
+  audio?: Omit<PreprocessedAudioFile, 'path'> & { file: string };
+}
+
+// Thrown when a part doesn't start where the stored data ends, e.g. after a
+// retry of a part that did arrive. The client resumes from `receivedBytes`.
+export class UploadOffsetError extends Error {
+  constructor(public receivedBytes: number) {
+    super(`Upload part must start at byte ${receivedBytes}`);
+    this.name = 'UploadOffsetError';
+  }
+}
+
+export class UploadStore {
+  private locks = new Map<string, Promise<unknown>>();
+
+  // `keptUploads` lists the finished uploads that mustn't expire
+  constructor(
+    private directory: string,
+    private keptUploads: () => Promise<Set<string>> = async () => new Set()
+  ) {}
+
+  private uploadPath(id: string, extension: string): string {
+    if (!UPLOAD_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid upload id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.${extension}`);
+  }
+
+  // Serialise appends and preprocessing per upload so parts can't interleave
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.locks.set(id, next);
+    next.finally(() => {
+      if (this.locks.get(id) === next) {
+        this.locks.delete(id);
+      }
+    }).catch(() => {});
+    return next;
+  }
+
+  private async readRecord(id: string): Promise<UploadRecord | null> {
+    if (!UPLOAD_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.uploadPath(id, 'json'), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeRecord(record: UploadRecord): Promise<void> {
+    const target = this.uploadPath(record.id, 'json');
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(record, null, 2));
+    await fs.rename(temp, target);
+  }
+
+  // The data file is the source of truth for progress, so a crash mid-part
+  // just means the client resends from wherever the bytes actually stop
+  private async toInfo(record: UploadRecord): Promise<UploadInfo> {
+    const { size, mtime } = await fs.stat(this.uploadPath(record.id, 'data'));
+    return {
+      id: record.id,
+      fileName: record.fileName,
+      fileSize: record.fileSize,
+      mimeType: record.mimeType,
+      receivedBytes: size,
+      partSize: UPLOAD_PART_SIZE,
+      complete: size === record.fileSize,
+      createdAt: record.createdAt,
+      updatedAt: mtime.toISOString(),
+    };
+  }
+
+  private async removeExpired(): Promise<void> {
+    const entries = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const now = Date.now();
+    // Only looked up once a finished upload is old enough to go
+    let kept: Set<string> | null = null;
+
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      const id = entry.slice(0, -'.json'.length);
+      const record = await this.readRecord(id).catch(() => null);
+      const stats = await fs.stat(this.uploadPath(id, 'data')).catch(() => null);
+      const finished = !!record && stats?.size === record.fileSize;
+
+      if (stats && stats.mtimeMs >= now - (finished ? FINISHED_UPLOAD_TTL_MS : UPLOAD_TTL_MS)) continue;
+      if (finished) {
+        kept ??= await this.keptUploads();
+        if (kept.has(id)) continue;
+      }
+      await this.delete(id);
+    }
+  }
+
+  async create(fileName: string, fileSize: number, mimeType: string): Promise<UploadInfo> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.removeExpired();
+
+    const record: UploadRecord = {
+      id: crypto.randomUUID(),
+      fileName,
+      fileSize,
+      mimeType,
+      createdAt: new Date().toISOString(),
+    };
+
+    await fs.writeFile(this.uploadPath(record.id, 'data'), Buffer.alloc(0));
+    await this.writeRecord(record);
+    return this.toInfo(record);
+  }
+
+  // Stores a file that arrives whole as a stream, e.g. one part of a multipart body.
+  // Its size is only known once the stream ends, so the record is written last.
+  async createFromStream(fileName: string, mimeType: string, data: Readable): Promise<UploadInfo> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.removeExpired();
+
+    const id = crypto.randomUUID();
+    const target = this.uploadPath(id, 'data');
+
+    try {
+      await pipeline(data, createWriteStream(target));
+    } catch (error) {
+      await fs.rm(target, { force: true });
+      throw error;
+    }
+
+    const { size } = await fs.stat(target);
+    const record: UploadRecord = { id, fileName, fileSize: size, mimeType, createdAt: new Date().toISOString() };
+    await this.writeRecord(record);
+    return this.toInfo(record);
+  }
+
+  async get(id: string): Promise<UploadInfo | null> {
+    const record = await this.readRecord(id);
+    return record ? this.toInfo(record) : null;
+  }
+
+  // Appends one part, which must start exactly where the stored data ends
+  async append(id: string, offset: number, data: Buffer): Promise<UploadInfo | null> {
+    return this.withLock(id, async () => {
+      const record = await this.readRecord(id);
+      if (!record) return null;
+
+      const { receivedBytes } = await this.toInfo(record);
+      if (offset !== receivedBytes) {
+        throw new UploadOffsetError(receivedBytes);
+      }
+      if (data.length > MAX_PART_SIZE || receivedBytes + data.length > record.fileSize) {
+        throw new RangeError(`Part of ${data.length} bytes does not fit the upload`);
+      }
+
+      await fs.appendFile(this.uploadPath(id, 'data'), data);
+      return this.toInfo(record);
+    });
+  }
+
+  // The original file as uploaded, e.g. to cut video clips from; null until complete
+  async source(id: string): Promise<{ path: string; fileName: string; mimeType: string } | null> {
+    const record = await this.readRecord(id);
+    if (!record || !(await this.toInfo(record)).complete) return null;
+    return { path: this.uploadPath(id, 'data'), fileName: record.fileName, mimeType: record.mimeType };
+  }
+
+  // Preprocesses a complete upload on first use; later callers get the same file
+  async audio(id: string): Promise<PreprocessedAudioFile | null> {
+    return this.withLock(id, async () => {
+      const record = await this.readRecord(id);
+      if (!record) return null;
+
+      if (record.audio) {
+        const { file, ...audio } = record.audio;
+        return { ...audio, path: path.join(this.directory, file) };
+      }
+
+      if (!(await this.toInfo(record)).complete) {
+        throw new Error(`Upload ${id} is not complete`);
+      }
+
+      const audio = await preprocessAudioFile(
+        this.uploadPath(id, 'data'),
+        record.fileName,
+        record.mimeType,
+        this.uploadPath(id, 'audio')
+      );
+      const { path: audioPath, ...rest } = audio;
+      await this.writeRecord({ ...record, audio: { ...rest, file: path.basename(audioPath) } });
+      return audio;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    const record = await this.readRecord(id);
+    const files = [this.uploadPath(id, 'json'), this.uploadPath(id, 'data')];
+    if (record?.audio) files.push(path.join(this.directory, record.audio.file));
+    await Promise.all(files.map(file => fs.rm(file, { force: true })));
+  }
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import type { LibrarySummary } from '../lib/library/store';
+import { formatTimestamp } from '../lib/transcript';
+
+const SEARCH_DELAY_MS = 300;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export default function Library() {
+  const [entries, setEntries] = useState<LibrarySummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  // Wait for a pause in typing before searching every transcript again
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/library?q=${encodeURIComponent(query)}`);
+        if (!response.ok) throw new Error('Failed to load the library');
+        const { entries } = await response.json();
+        if (!cancelled) setEntries(entries);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, query ? SEARCH_DELAY_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const saveTitle = async () => {
+    if (!renaming) return;
+    const title = renaming.title.trim();
+    setRenaming(null);
+    if (!title) return;
+
+    const response = await fetch(`/api/library/${renaming.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title }),
+    });
+
+    if (!response.ok) {
+      setError('Failed to rename transcript');
+      return;
+    }
+
+    setEntries(prev => prev.map(entry => entry.id === renaming.id ? { ...entry, title } : entry));
+  };
+
+  const deleteEntry = async (entry: LibrarySummary) => {
+    if (!window.confirm(`Delete "${entry.title}" and all of its enhancements?`)) return;
+
+    const response = await fetch(`/api/library/${entry.id}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      setError('Failed to delete transcript');
+      return;
+    }
+
+    setEntries(prev => prev.filter(other => other.id !== entry.id));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto max-w-4xl px-6 py-12">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white">
+            Library
+          </h1>
+          <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+            New transcript
+          </Link>
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles, file names and transcripts"
+          className="w-full mb-8 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md
+            bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+            placeholder-gray-500 dark:placeholder-gray-400
+            focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800
+            text-red-800 dark:text-red-400 px-4 py-3 rounded-md mb-8">
+            <p className="font-medium">Error:</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {!loading && entries.length === 0 && (
+          <p className="text-gray-600 dark:text-gray-400">
+            {query ? 'No transcripts match that search.' : 'Finished transcripts are saved here automatically.'}
+          </p>
+        )}
+
+        <ul className="space-y-4">
+          {entries.map(entry => (
+            <li
+              key={entry.id}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6"
+            >
+              <div className="flex justify-between items-start gap-4 mb-2">
+                {renaming?.id === entry.id ? (
+                  <input
+                    type="text"
+                    value={renaming.title}
+                    onChange={(e) => setRenaming({ id: entry.id, title: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveTitle();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    onBlur={saveTitle}
+                    autoFocus
+                    className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+                      bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                  />
+                ) : (
+                  <Link
+                    href={`/?entry=${entry.id}`}
+                    className="text-lg font-semibold text-gray-900 dark:text-white hover:underline"
+                  >
+                    {entry.title}
+                  </Link>
+                )}
+                <div className="flex gap-3 text-sm shrink-0">
+                  <button
+                    onClick={() => setRenaming({ id: entry.id, title: entry.title })}
+                    className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+                  >
+                    Rename
+                  </button>
+                  <a
+                    href={`/api/library/${entry.id}/response`}
+                    className="text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+                  >
+                    Raw response
+                  </a>
+                  <button
+                    onClick={() => deleteEntry(entry)}
+                    className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                {entry.source.fileName} · {(entry.source.fileSize / 1024 / 1024).toFixed(1)} MB
+                {entry.durationMs > 0 && ` · ${formatTimestamp(entry.durationMs)}`}
+                {' · '}{entry.source.transcriber}
+                {entry.source.tracks && ` · tracks: ${entry.source.tracks.join(', ')}`}
+                {' · '}{formatDate(entry.createdAt)}
+              </p>
+
+              <p className="text-sm text-gray-800 dark:text-gray-200 mb-3">{entry.excerpt}</p>
+
+              {entry.enhancements.length > 0 && (
+                <ul className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                  {entry.enhancements.map(run => (
+                    <li key={run.id}>
+                      {run.provider} · {run.model} · {run.promptProfile || 'standard'} prompt v{run.promptVersion} · {formatDate(run.createdAt)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
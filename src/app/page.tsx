@@ -1,170 +1,447 @@
 'use client';
 
-import { useState } from 'react';
+import Link from 'next/link';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import CaptionButtons from './components/CaptionButtons';
+import CaptionSettings from './components/CaptionSettings';
+import ClipFinder from './components/ClipFinder';
+import ConfidenceReport from './components/ConfidenceReport';
+import EnhancedTranscriptPanel, { EMPTY_ENHANCEMENT, EnhancementView, PROVIDER_STYLES } from './components/EnhancedTranscriptPanel';
+import GlossaryEditor, { readActiveGlossary, readActiveProject } from './components/GlossaryEditor';
+import ShowNotesPanel from './components/ShowNotesPanel';
+import SpeakerMapper from './components/SpeakerMapper';
+import TranscriptDiff, { DiffSource } from './components/TranscriptDiff';
+import TrackList, { TrackInput } from './components/TrackList';
+import TranscriptEditor from './components/TranscriptEditor';
+import TranslationPanel from './components/TranslationPanel';
+import { CaptionOptions, DEFAULT_CAPTION_OPTIONS } from './lib/captions';
+import { downloadFile } from './lib/download';
+import type { Glossary } from './lib/glossary';
+import type { PreprocessResult } from './lib/media/preprocess';
+import type { PromptProfileInfo } from './lib/enhancement/profiles';
+import type { EnhancementResult, ProviderId, ProviderInfo } from './lib/enhancement/types';
+import type { EnhancementState, TranscriptionJob } from './lib/jobs/types';
+import type { LibraryEntry } from './lib/library/store';
+import type { TranscriberId, TranscriberInfo } from './lib/transcription/types';
+import { readEnhancementStream } from './lib/sse';
+import { SpeakerNames, detectSpeakers } from './lib/speakers';
+import { formatTimestamp } from './lib/transcript';
+import { Transcript, fromMarkdown, renderMarkdown, toCaptionWords } from './lib/transcript-model';
+import { uploadFile } from './lib/uploads/client';
+
+// Default host names, keyed by glossary project (usually one per show)
+const DEFAULT_HOST_NAMES_KEY = 'transcribe.defaultHostNames';
+const ACTIVE_JOB_KEY = 'transcribe.activeJobId';
+const TRANSCRIBER_KEY = 'transcribe.transcriber';
+const PROMPT_PROFILE_KEY = 'transcribe.promptProfile';
+const JOB_POLL_INTERVAL_MS = 5000;
+
+function loadDefaultHostNames(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(DEFAULT_HOST_NAMES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// Shown until the server reports which providers it has configured
+const DEFAULT_PROVIDERS: ProviderInfo[] = [
+  { id: 'anthropic', label: 'Claude', model: '', supportsAudio: false },
+  { id: 'gemini', label: 'Gemini', model: '', supportsAudio: true },
+];
+
+// Results saved before prompt profiles existed were all made with the standard one
+const promptOf = (result: EnhancementResult) => ({ profile: result.prompt_profile || 'standard', version: result.prompt_version });
+
+const DEFAULT_TRANSCRIBERS: TranscriberInfo[] = [
+  { id: 'assemblyai', label: 'AssemblyAI', diarization: true },
+];
+
+async function waitForJob(jobId: string, onUpdate: (job: TranscriptionJob) => void): Promise<void> {
+  while (true) {
+    const response = await fetch(`/api/jobs/${jobId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to check transcription status');
+    }
+
+    const job: TranscriptionJob = await response.json();
+    onUpdate(job);
+
+    if (job.status === 'error') {
+      throw new Error(job.error || 'Transcription failed');
+    }
+
+    // Enhancements are started server-side once the transcript is ready
+    const enhancing = Object.values(job.enhancements || {}).some(state => state?.status === 'running');
+    if (job.status === 'completed' && !enhancing) {
+      return;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
   const [processing, setProcessing] = useState(false);
-  const [transcript, setTranscript] = useState<string>('');
-  const [enhancedTranscript, setEnhancedTranscript] = useState<string>('');
-  const [geminiEnhancedTranscript, setGeminiEnhancedTranscript] = useState<string>('');
-  const [enhancing, setEnhancing] = useState(false);
-  const [geminiEnhancing, setGeminiEnhancing] = useState(false);
-  const [enhancementProgress, setEnhancementProgress] = useState({ completed: 0, total: 0 });
-  const [geminiEnhancementProgress, setGeminiEnhancementProgress] = useState({ completed: 0, total: 0 });
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [providers, setProviders] = useState<ProviderInfo[]>(DEFAULT_PROVIDERS);
+  const [enhancements, setEnhancements] = useState<Partial<Record<ProviderId, EnhancementView>>>({});
   const [error, setError] = useState<string>('');
+  const [speakerNames, setSpeakerNames] = useState<SpeakerNames>({});
+  const [defaultHostNames, setDefaultHostNames] = useState<Record<string, string>>({});
+  const [jobStatus, setJobStatus] = useState<string>('');
+  const [captionOptions, setCaptionOptions] = useState<CaptionOptions>(DEFAULT_CAPTION_OPTIONS);
+  const [proofreadId, setProofreadId] = useState<string>('original');
+  const [glossary, setGlossary] = useState<Glossary>([]);
+  const [project, setProject] = useState<string | null>(null);
+  const [preprocessing, setPreprocessing] = useState<PreprocessResult | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [transcribers, setTranscribers] = useState<TranscriberInfo[]>(DEFAULT_TRANSCRIBERS);
+  const [transcriberId, setTranscriberId] = useState<TranscriberId>('assemblyai');
+  const [profiles, setProfiles] = useState<PromptProfileInfo[]>([]);
+  // Unset until the server has listed its profiles, so requests use its default
+  const [profileId, setProfileId] = useState<string | undefined>(undefined);
+  // Set when each speaker was recorded to their own file
+  const [tracks, setTracks] = useState<TrackInput[] | null>(null);
+  // The library entry the shown transcript is saved as; enhancement runs are filed under it
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+  const resumedJob = useRef(false);
+
+  useEffect(() => {
+    setDefaultHostNames(loadDefaultHostNames());
+    setGlossary(readActiveGlossary());
+    setProject(readActiveProject());
+
+    fetch('/api/enhance')
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        if (result?.providers?.length) setProviders(result.providers);
+        const available: PromptProfileInfo[] = result?.profiles || [];
+        if (available.length === 0) return;
+        setProfiles(available);
+        const saved = localStorage.getItem(PROMPT_PROFILE_KEY);
+        setProfileId(available.find(profile => profile.id === saved)?.id ?? result.default_profile);
+      })
+      .catch(() => {});
+
+    fetch('/api/transcribe')
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        const available: TranscriberInfo[] = result?.transcribers || [];
+        if (available.length === 0) return;
+        setTranscribers(available);
+        const saved = localStorage.getItem(TRANSCRIBER_KEY);
+        setTranscriberId(available.find(transcriber => transcriber.id === saved)?.id ?? available[0].id);
+      })
+      .catch(() => {});
+  }, []);
+
+  const selectTranscriber = (id: TranscriberId) => {
+    setTranscriberId(id);
+    localStorage.setItem(TRANSCRIBER_KEY, id);
+  };
+
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    localStorage.setItem(PROMPT_PROFILE_KEY, id);
+  };
+
+  const selectGlossary = (next: Glossary, name: string) => {
+    setGlossary(next);
+    setProject(name);
+  };
+
+  const defaultHostName = project ? defaultHostNames[project] || '' : '';
+
+  const updateDefaultHostName = (name: string) => {
+    if (!project) return;
+    const next = { ...loadDefaultHostNames(), [project]: name };
+    setDefaultHostNames(next);
+    localStorage.setItem(DEFAULT_HOST_NAMES_KEY, JSON.stringify(next));
+  };
+
+  // Multi-track transcripts carry the name given with each track
+  const trackSpeakerNames = (named: Transcript): SpeakerNames =>
+    Object.fromEntries(named.speakers.flatMap(({ id, name }) => (name ? [[id, name]] : [])));
+
+  // The host usually opens the episode, so the first speaker gets the default name.
+  // Read from storage rather than state, since a resumed job or re-opened library
+  // entry gets here on mount, before the stored names have reached state.
+  const initialSpeakerNames = (transcriptText: string): SpeakerNames => {
+    const [firstSpeaker] = detectSpeakers(transcriptText);
+    const hostName = loadDefaultHostNames()[readActiveProject()];
+    return firstSpeaker && hostName ? { [firstSpeaker.label]: hostName } : {};
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       setFile(selectedFile);
+      setPreprocessing(null);
       setError('');
     }
   };
 
-  const processFile = async () => {
-    if (!file) return;
+  const updateEnhancement = (id: ProviderId, update: Partial<EnhancementView>) => {
+    setEnhancements(prev => ({ ...prev, [id]: { ...EMPTY_ENHANCEMENT, ...prev[id], ...update } }));
+  };
 
-    setProcessing(true);
-    setError('');
-    setTranscript('');
+  const showServerEnhancement = (id: ProviderId, state: EnhancementState | undefined) => {
+    if (!state) return;
+    updateEnhancement(id, {
+      running: state.status === 'running',
+      completed: state.completed,
+      total: state.total,
+      ...(state.result && {
+        output: state.result.structured_transcript,
+        faithfulness: state.result.faithfulness,
+        prompt: promptOf(state.result),
+      }),
+    });
+    if (state.error) {
+      setError(state.error);
+    }
+  };
 
+  const openLibraryEntry = async (entryId: string) => {
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-
-      const response = await fetch('/api/transcribe', {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await fetch(`/api/library/${entryId}`);
 
       if (!response.ok) {
-        throw new Error('Failed to transcribe audio');
+        throw new Error('Failed to open transcript from the library');
       }
 
-      const result = await response.json();
-      setTranscript(result.transcript);
-      
-      // Auto-trigger both enhancements
-      enhanceTranscriptInternal(result.transcript);
-      enhanceWithGeminiInternal(result.transcript, file);
+      const entry: LibraryEntry = await response.json();
+      setLibraryId(entry.id);
+      setTranscript(entry.transcript);
+      setSpeakerNames(entry.source.tracks ? trackSpeakerNames(entry.transcript) : initialSpeakerNames(entry.markdown));
+
+      // Runs are stored oldest first, so the latest run of each provider wins
+      const latest: Partial<Record<ProviderId, EnhancementView>> = {};
+      for (const { provider, result } of entry.enhancements) {
+        latest[provider] = {
+          ...EMPTY_ENHANCEMENT,
+          completed: result.chunks_processed,
+          total: result.chunks_processed,
+          output: result.structured_transcript,
+          faithfulness: result.faithfulness,
+          prompt: promptOf(result),
+        };
+      }
+      setEnhancements(latest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const runJob = async (jobId: string) => {
+    setProcessing(true);
+    setError('');
+    let transcriptReceived = false;
+
+    try {
+      await waitForJob(jobId, (job) => {
+        setJobStatus(job.status);
+        if (job.preprocessing) setPreprocessing(job.preprocessing);
+
+        if (job.result && !transcriptReceived) {
+          transcriptReceived = true;
+          setLibraryId(job.id);
+          setTranscript(job.result.structured_transcript);
+          setSpeakerNames(job.tracks
+            ? trackSpeakerNames(job.result.structured_transcript)
+            : initialSpeakerNames(job.result.transcript));
+          setProcessing(false);
+        }
+
+        for (const [id, state] of Object.entries(job.enhancements || {})) {
+          showServerEnhancement(id as ProviderId, state);
+        }
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
+      localStorage.removeItem(ACTIVE_JOB_KEY);
       setProcessing(false);
+      setJobStatus('');
     }
   };
 
-  const enhanceTranscriptInternal = async (transcriptText: string) => {
-    setEnhancing(true);
+  // Both only call state setters, so the handlers from the first render can open
+  // whatever the page was left showing
+  const restore = useRef({ openLibraryEntry, runJob });
+
+  useEffect(() => {
+    // Re-open a transcript from the library, or pick up a transcription that
+    // was still running when the page was closed
+    const entryId = new URLSearchParams(window.location.search).get('entry');
+    const activeJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (entryId) {
+      restore.current.openLibraryEntry(entryId);
+    } else if (activeJobId && !resumedJob.current) {
+      resumedJob.current = true;
+      restore.current.runJob(activeJobId);
+    }
+  }, []);
+
+  const canProcess = tracks
+    ? tracks.length > 0 && tracks.every(track => track.file && track.speaker.trim())
+    : !!file;
+  // The first track plays in the editor; audio enhancements need the whole conversation
+  const media = tracks ? tracks[0]?.file ?? null : file;
+  const audioFile = tracks ? null : file;
+
+  // Uploads every track in turn, reporting progress across all of them
+  const uploadTracks = async (inputs: TrackInput[]) => {
+    const totalBytes = inputs.reduce((sum, track) => sum + track.file!.size, 0);
+    const uploaded: { uploadId: string; speaker: string }[] = [];
+    let doneBytes = 0;
+
+    for (const track of inputs) {
+      const uploadId = await uploadFile(track.file!, (received) => setUploadProgress((doneBytes + received) / totalBytes));
+      uploaded.push({ uploadId, speaker: track.speaker.trim() });
+      doneBytes += track.file!.size;
+    }
+
+    return uploaded;
+  };
+
+  const processFile = async () => {
+    if (!canProcess) return;
+
+    setProcessing(true);
     setError('');
-    setEnhancementProgress({ completed: 0, total: 0 });
+    setTranscript(null);
+    setLibraryId(null);
+    setEnhancements({});
+    setSpeakerNames({});
 
     try {
-      const response = await fetch('/api/enhance', {
+      const source = tracks
+        ? { tracks: await uploadTracks(tracks) }
+        : { uploadId: await uploadFile(file!, (received, total) => setUploadProgress(received / total)) };
+      setUploadProgress(null);
+
+      const response = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ transcript: transcriptText }),
+        body: JSON.stringify({ ...source, glossary, transcriber: transcriberId, profile: profileId }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to enhance transcript');
+        throw new Error('Failed to start transcription');
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('No response stream available');
-      }
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.type === 'progress') {
-                setEnhancementProgress({ completed: data.completed, total: data.total });
-              } else if (data.type === 'complete') {
-                setEnhancedTranscript(data.enhanced_transcript);
-                setEnhancementProgress({ completed: data.chunks_processed, total: data.chunks_processed });
-              } else if (data.type === 'error') {
-                throw new Error(data.error);
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse SSE data:', parseError);
-            }
-          }
-        }
-      }
+      const { id } = await response.json();
+      localStorage.setItem(ACTIVE_JOB_KEY, id);
+      await runJob(id);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Enhancement failed');
-    } finally {
-      setEnhancing(false);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setUploadProgress(null);
+      setProcessing(false);
     }
   };
 
-  const enhanceTranscript = async () => {
-    if (!transcript) return;
-    await enhanceTranscriptInternal(transcript);
+  const enhancementRequest = async (id: ProviderId, source: Transcript, audioFile: File | null): Promise<Response> => {
+    // Resolves straight away when the file was already uploaded for the transcript
+    const uploadId = audioFile ? await uploadFile(audioFile) : undefined;
+
+    return fetch('/api/enhance', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        provider: id,
+        structured_transcript: source,
+        glossary,
+        speakerNames,
+        profile: profileId,
+        uploadId,
+        libraryId,
+      }),
+    });
   };
 
-  const enhanceWithGeminiInternal = async (transcriptText: string, audioFile: File) => {
-    setGeminiEnhancing(true);
+  const runEnhancement = async (provider: ProviderInfo) => {
+    if (!transcript) return;
+
+    const { id, label } = provider;
+    updateEnhancement(id, { running: true, completed: 0, total: 0, faithfulness: undefined });
     setError('');
-    setGeminiEnhancementProgress({ completed: 0, total: 0 });
 
-    try {
-      const formData = new FormData();
-      formData.append('transcript', transcriptText);
-      formData.append('audioFile', audioFile);
+    const partialChunks: string[] = [];
 
-      const response = await fetch('/api/enhance-gemini', {
-        method: 'POST',
-        body: formData,
-      });
+    try {
+      const response = await enhancementRequest(id, transcript, provider.supportsAudio ? audioFile : null);
 
       if (!response.ok) {
-        throw new Error('Failed to enhance transcript with Gemini');
+        throw new Error(`Failed to enhance transcript with ${label}`);
       }
 
-      const result = await response.json();
-      setGeminiEnhancedTranscript(result.enhanced_transcript);
-      setGeminiEnhancementProgress({ completed: result.chunks_processed, total: result.chunks_processed });
+      await readEnhancementStream(response, {
+        onProgress: (event) => {
+          // Show chunks as they finish rather than waiting for the whole run
+          if (event.chunk) {
+            partialChunks[event.chunk.index] = event.chunk.text;
+          }
+          updateEnhancement(id, {
+            completed: event.completed,
+            total: event.total,
+            ...(event.chunk && { output: fromMarkdown(partialChunks.filter(Boolean).join('\n\n')) }),
+          });
+        },
+        onComplete: (event) => {
+          updateEnhancement(id, {
+            output: event.structured_transcript,
+            faithfulness: event.faithfulness,
+            prompt: promptOf(event),
+            completed: event.chunks_processed,
+            total: event.chunks_processed,
+          });
+        },
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Gemini enhancement failed');
+      setError(err instanceof Error ? err.message : `${label} enhancement failed`);
     } finally {
-      setGeminiEnhancing(false);
+      updateEnhancement(id, { running: false });
     }
   };
 
-  const enhanceWithGemini = async () => {
-    if (!transcript || !file) return;
-    await enhanceWithGeminiInternal(transcript, file);
+  const downloadMarkdown = (content: string, filename: string) => {
+    downloadFile(content, filename, 'text/markdown');
   };
 
-  const downloadMarkdown = (content: string, filename: string) => {
-    if (!content) return;
-    
-    const blob = new Blob([content], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const originalOutput = renderMarkdown(transcript, speakerNames);
+  // Labels only, so the mapper keys names by label even when the transcript names its speakers
+  const speakerLabelMarkdown = useMemo(
+    () => (transcript ? renderMarkdown({ ...transcript, speakers: transcript.speakers.map(({ id }) => ({ id })) }) : ''),
+    [transcript]
+  );
+
+  const captionWords = useMemo(() => toCaptionWords(transcript), [transcript]);
+
+  // Finished transcripts the diff view can compare, original first
+  const diffSources = useMemo((): DiffSource[] => {
+    if (!transcript) return [];
+    const finished = providers.flatMap(({ id, label }) => {
+      const enhancement = enhancements[id];
+      return enhancement?.output && !enhancement.running
+        ? [{ id, label: `${label} enhanced`, transcript: enhancement.output }]
+        : [];
+    });
+    return [{ id: 'original', label: 'Original', transcript }, ...finished];
+  }, [transcript, providers, enhancements]);
+
+  const proofreadSource = diffSources.find(source => source.id === proofreadId) || diffSources[0];
+
+  const updateProofread = (id: string, edited: Transcript) => {
+    if (id === 'original') setTranscript(edited);
+    else updateEnhancement(id as ProviderId, { output: edited });
   };
 
   const handleSelectAll = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -186,45 +463,133 @@ export default function Home() {
           <p className="text-lg text-gray-600 dark:text-gray-300">
             Upload audio or video files to generate speaker-labeled transcripts
           </p>
+          <Link href="/library" className="inline-block mt-2 text-blue-600 dark:text-blue-400 hover:underline">
+            Past transcripts
+          </Link>
         </div>
 
         {/* Upload Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
-          <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-              Select audio or video file
-            </label>
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300">
             <input
-              type="file"
-              accept="audio/*,video/*"
-              onChange={handleFileChange}
-              className="block w-full text-sm text-gray-500 dark:text-gray-400
-                file:mr-4 file:py-2 file:px-4
-                file:rounded-md file:border-0
-                file:text-sm file:font-medium
-                file:bg-blue-50 file:text-blue-700
-                dark:file:bg-blue-900/20 dark:file:text-blue-400
-                hover:file:bg-blue-100 dark:hover:file:bg-blue-900/30
-                file:cursor-pointer cursor-pointer"
+              type="checkbox"
+              checked={tracks !== null}
+              onChange={(e) => setTracks(e.target.checked ? [{ file: null, speaker: '' }, { file: null, speaker: '' }] : null)}
+              disabled={processing}
             />
-            {file && (
-              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-                Selected: {file.name} ({(file.size / 1024 / 1024).toFixed(1)} MB)
+            Separate track per speaker
+          </label>
+
+          {tracks ? (
+            <div className="mb-6">
+              <TrackList tracks={tracks} onChange={setTracks} disabled={processing} />
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Each track is transcribed on its own and merged by timestamp. Re-enhancing with audio needs a single file.
               </p>
-            )}
-          </div>
+            </div>
+          ) : (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                Select audio or video file
+              </label>
+              <input
+                type="file"
+                accept="audio/*,video/*"
+                onChange={handleFileChange}
+                className="block w-full text-sm text-gray-500 dark:text-gray-400
+                  file:mr-4 file:py-2 file:px-4
+                  file:rounded-md file:border-0
+                  file:text-sm file:font-medium
+                  file:bg-blue-50 file:text-blue-700
+                  dark:file:bg-blue-900/20 dark:file:text-blue-400
+                  hover:file:bg-blue-100 dark:hover:file:bg-blue-900/30
+                  file:cursor-pointer cursor-pointer"
+              />
+              {file && (
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  Selected: {file.name} ({(file.size / 1024 / 1024).toFixed(1)} MB)
+                </p>
+              )}
+              {preprocessing && (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  {preprocessing.skipped
+                    ? `Uploaded as-is: ${preprocessing.skipped}`
+                    : `Audio ${preprocessing.hadVideo ? 'extracted and ' : ''}compressed from ${(preprocessing.originalSize / 1024 / 1024).toFixed(1)} MB ` +
+                      `to ${(preprocessing.processedSize / 1024 / 1024).toFixed(1)} MB ` +
+                      `(${Math.round((1 - preprocessing.processedSize / preprocessing.originalSize) * 100)}% smaller)`}
+                  {preprocessing.durationMs > 0 && `, ${formatTimestamp(preprocessing.durationMs)} long`}
+                </p>
+              )}
+            </div>
+          )}
+
+          {transcribers.length > 1 && (
+            <div className="mb-6 flex items-center gap-3 text-sm">
+              <label htmlFor="transcriber" className="font-medium text-gray-700 dark:text-gray-300">
+                Transcribe with
+              </label>
+              <select
+                id="transcriber"
+                value={transcriberId}
+                onChange={(e) => selectTranscriber(e.target.value as TranscriberId)}
+                disabled={processing}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+                  bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+              >
+                {transcribers.map(transcriber => (
+                  <option key={transcriber.id} value={transcriber.id}>{transcriber.label}</option>
+                ))}
+              </select>
+              {!transcribers.find(transcriber => transcriber.id === transcriberId)?.diarization && (
+                <span className="text-gray-500 dark:text-gray-400">No speaker labels: everything is attributed to one speaker</span>
+              )}
+            </div>
+          )}
+
+          {profiles.length > 1 && (
+            <div className="mb-6 text-sm">
+              <div className="flex items-center gap-3">
+                <label htmlFor="prompt-profile" className="font-medium text-gray-700 dark:text-gray-300">
+                  Enhancement style
+                </label>
+                <select
+                  id="prompt-profile"
+                  value={profileId}
+                  onChange={(e) => selectProfile(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md
+                    bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.label}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="mt-1 text-gray-500 dark:text-gray-400">
+                {profiles.find(profile => profile.id === profileId)?.description}
+              </p>
+            </div>
+          )}
 
           <button
             onClick={processFile}
-            disabled={!file || processing}
+            disabled={!canProcess || processing}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 
               text-white font-medium py-3 px-6 rounded-md transition-colors
               disabled:cursor-not-allowed"
           >
-            {processing ? 'Processing...' : 'Generate Transcript'}
+            {processing ? (
+              uploadProgress !== null ? `Uploading file... ${Math.round(uploadProgress * 100)}%`
+                : jobStatus === 'preprocessing' ? 'Compressing audio...'
+                : jobStatus === 'uploading' ? 'Uploading...'
+                : jobStatus === 'queued' || jobStatus === 'processing' ? 'Transcribing...'
+                : 'Processing...'
+            ) : 'Generate Transcript'}
           </button>
         </div>
 
+        {/* Glossary Section */}
+        <GlossaryEditor onChange={selectGlossary} />
+
         {/* Error Message */}
         {error && (
           <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 
@@ -234,6 +599,20 @@ export default function Home() {
           </div>
         )}
 
+        {/* Speaker Mapping Section */}
+        <SpeakerMapper
+          transcript={speakerLabelMarkdown}
+          names={speakerNames}
+          onNamesChange={setSpeakerNames}
+          defaultHostName={defaultHostName}
+          onDefaultHostNameChange={updateDefaultHostName}
+        />
+
+        {/* Caption Settings Section */}
+        {transcript && (
+          <CaptionSettings options={captionOptions} onChange={setCaptionOptions} />
+        )}
+
         {/* Original Transcript Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
           <div className="flex justify-between items-center mb-4">
@@ -243,44 +622,44 @@ export default function Home() {
             <div className="flex gap-2">
               {transcript && (
                 <>
+                  {providers.map((provider) => {
+                    const { running, completed, total } = enhancements[provider.id] || EMPTY_ENHANCEMENT;
+                    return (
+                      <button
+                        key={provider.id}
+                        onClick={() => runEnhancement(provider)}
+                        disabled={running || (provider.supportsAudio && !audioFile)}
+                        className={`${PROVIDER_STYLES[provider.id].button} disabled:bg-gray-400 text-white font-medium 
+                          py-2 px-4 rounded-md transition-colors text-sm disabled:cursor-not-allowed`}
+                      >
+                        {running ? (
+                          total > 0 
+                            ? `${provider.label} (${completed}/${total})...`
+                            : `${provider.label} Enhancing...`
+                        ) : `Re-enhance with ${provider.label}`}
+                      </button>
+                    );
+                  })}
                   <button
-                    onClick={enhanceTranscript}
-                    disabled={enhancing}
-                    className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white font-medium 
-                      py-2 px-4 rounded-md transition-colors text-sm disabled:cursor-not-allowed"
-                  >
-                    {enhancing ? (
-                      enhancementProgress.total > 0 
-                        ? `Claude (${enhancementProgress.completed}/${enhancementProgress.total})...`
-                        : 'Claude Enhancing...'
-                    ) : 'Re-enhance with Claude'}
-                  </button>
-                  <button
-                    onClick={enhanceWithGemini}
-                    disabled={geminiEnhancing || !file}
-                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium 
-                      py-2 px-4 rounded-md transition-colors text-sm disabled:cursor-not-allowed"
-                  >
-                    {geminiEnhancing ? (
-                      geminiEnhancementProgress.total > 0 
-                        ? `Gemini (${geminiEnhancementProgress.completed}/${geminiEnhancementProgress.total})...`
-                        : 'Gemini Enhancing...'
-                    ) : 'Re-enhance with Gemini'}
-                  </button>
-                  <button
-                    onClick={() => downloadMarkdown(transcript, 'transcript-original.md')}
+                    onClick={() => downloadMarkdown(originalOutput, 'transcript-original.md')}
                     className="bg-green-600 hover:bg-green-700 text-white font-medium 
                       py-2 px-4 rounded-md transition-colors text-sm"
                   >
                     Download
                   </button>
+                  <CaptionButtons
+                    transcript={transcript}
+                    options={captionOptions}
+                    speakerNames={speakerNames}
+                    filename="transcript-original"
+                  />
                 </>
               )}
             </div>
           </div>
           
           <textarea
-            value={transcript}
+            value={originalOutput}
             readOnly
             onKeyDown={handleSelectAll}
             placeholder={processing ? 'Processing transcript...' : 'Transcript will appear here after processing'}
@@ -294,99 +673,75 @@ export default function Home() {
           />
         </div>
 
-        {/* Claude Enhanced Transcript Section */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
-          <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-              Claude Enhanced Transcript
-            </h2>
-            {enhancedTranscript && (
-              <button
-                onClick={() => downloadMarkdown(enhancedTranscript, 'transcript-claude-enhanced.md')}
-                className="bg-green-600 hover:bg-green-700 text-white font-medium 
-                  py-2 px-4 rounded-md transition-colors text-sm"
+        {/* Proofreading Section */}
+        {proofreadSource && (
+          <TranscriptEditor
+            transcript={proofreadSource.transcript}
+            onChange={(edited) => updateProofread(proofreadSource.id, edited)}
+            media={media}
+            speakerNames={speakerNames}
+            controls={diffSources.length > 1 && (
+              <select
+                value={proofreadSource.id}
+                onChange={(e) => setProofreadId(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm
+                  bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
               >
-                Download
-              </button>
+                {diffSources.map(source => (
+                  <option key={source.id} value={source.id}>{source.label}</option>
+                ))}
+              </select>
             )}
-          </div>
-          
-          {enhancing && enhancementProgress.total > 0 && (
-            <div className="mb-4">
-              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
-                <span>Claude Enhancement Progress</span>
-                <span>{Math.round((enhancementProgress.completed / enhancementProgress.total) * 100)}%</span>
-              </div>
-              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                <div 
-                  className="bg-purple-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(enhancementProgress.completed / enhancementProgress.total) * 100}%` }}
-                ></div>
-              </div>
-            </div>
-          )}
-          
-          <textarea
-            value={enhancedTranscript}
-            readOnly
-            onKeyDown={handleSelectAll}
-            placeholder={enhancing ? 'Enhancing transcript with Claude...' : 'Claude enhanced transcript will appear here'}
-            className="w-full h-96 p-4 border border-gray-300 dark:border-gray-600 
-              rounded-md resize-y font-mono text-sm
-              bg-white dark:bg-gray-900
-              text-gray-900 dark:text-gray-100
-              placeholder-gray-500 dark:placeholder-gray-400
-              focus:ring-2 focus:ring-blue-500 focus:border-blue-500
-              dark:focus:ring-blue-400 dark:focus:border-blue-400"
           />
-        </div>
+        )}
 
-        {/* Gemini Enhanced Transcript Section */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8">
-          <div className="flex justify-between items-center mb-4">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-              Gemini Enhanced Transcript (with Audio)
-            </h2>
-            {geminiEnhancedTranscript && (
-              <button
-                onClick={() => downloadMarkdown(geminiEnhancedTranscript, 'transcript-gemini-enhanced.md')}
-                className="bg-green-600 hover:bg-green-700 text-white font-medium 
-                  py-2 px-4 rounded-md transition-colors text-sm"
-              >
-                Download
-              </button>
-            )}
-          </div>
-          
-          {geminiEnhancing && geminiEnhancementProgress.total > 0 && (
-            <div className="mb-4">
-              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
-                <span>Gemini Enhancement Progress</span>
-                <span>{Math.round((geminiEnhancementProgress.completed / geminiEnhancementProgress.total) * 100)}%</span>
-              </div>
-              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                <div 
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(geminiEnhancementProgress.completed / geminiEnhancementProgress.total) * 100}%` }}
-                ></div>
-              </div>
-            </div>
-          )}
-          
-          <textarea
-            value={geminiEnhancedTranscript}
-            readOnly
+        {/* Confidence Report Section */}
+        {transcript && (
+          <ConfidenceReport transcript={transcript} speakerNames={speakerNames} />
+        )}
+
+        {/* Show Notes Section */}
+        {transcript && (
+          <ShowNotesPanel transcript={transcript} speakerNames={speakerNames} providers={providers} />
+        )}
+
+        {/* Clip Finder Section */}
+        {transcript && (
+          <ClipFinder transcript={transcript} speakerNames={speakerNames} captionOptions={captionOptions} media={audioFile} />
+        )}
+
+        {/* Enhanced Transcript Sections */}
+        {providers.map((provider) => (
+          <EnhancedTranscriptPanel
+            key={provider.id}
+            provider={provider}
+            enhancement={enhancements[provider.id] || EMPTY_ENHANCEMENT}
+            captionOptions={captionOptions}
+            speakerNames={speakerNames}
             onKeyDown={handleSelectAll}
-            placeholder={geminiEnhancing ? 'Enhancing transcript with Gemini (including audio analysis)...' : 'Gemini enhanced transcript will appear here'}
-            className="w-full h-96 p-4 border border-gray-300 dark:border-gray-600 
-              rounded-md resize-y font-mono text-sm
-              bg-white dark:bg-gray-900
-              text-gray-900 dark:text-gray-100
-              placeholder-gray-500 dark:placeholder-gray-400
-              focus:ring-2 focus:ring-blue-500 focus:border-blue-500
-              dark:focus:ring-blue-400 dark:focus:border-blue-400"
           />
-        </div>
+        ))}
+
+        {/* Diff Section */}
+        {diffSources.length >= 2 && (
+          <TranscriptDiff
+            sources={diffSources}
+            speakerNames={speakerNames}
+            captionOptions={captionOptions}
+            captionWords={captionWords}
+          />
+        )}
+
+        {/* Translation Section */}
+        {diffSources.length > 0 && (
+          <TranslationPanel
+            sources={diffSources}
+            speakerNames={speakerNames}
+            captionOptions={captionOptions}
+            providers={providers}
+            glossary={glossary}
+          />
+        )}
       </div>
     </div>
   );